@@ -0,0 +1,53 @@
+import type { Config } from "@netlify/functions";
+import { ALERT_RULES, applyCooldown, evaluateRule, recordFired } from "../lib/alerts";
+import { SITES } from "../lib/sites";
+import { ALERT_WEBHOOKS, postAlert } from "../lib/webhooks";
+
+// Evaluates ALERT_RULES every hour and posts anything that fired to ALERT_WEBHOOKS.
+// Each alert is only delivered once per its rule's cooldown.
+
+export default async (): Promise<Response> => {
+  if (ALERT_RULES.length === 0 || ALERT_WEBHOOKS.length === 0) {
+    console.log("Alerts skipped: ALERT_RULES or ALERT_WEBHOOKS is not set");
+    return new Response(JSON.stringify({ fired: 0, skipped: 'not configured' }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const now = Date.now();
+  let fired = 0;
+  let failed = 0;
+
+  for (const rule of ALERT_RULES) {
+    const sites = rule.siteId ? SITES.filter((site) => site.id === rule.siteId) : SITES;
+    for (const site of sites) {
+      try {
+        const alerts = await applyCooldown(await evaluateRule(rule, site, now), rule);
+        for (const alert of alerts) {
+          const delivered = await Promise.all(ALERT_WEBHOOKS.map((webhook) => postAlert(webhook, alert)));
+          // Undelivered alerts stay out of the cooldown so the next run retries them
+          if (delivered.some(Boolean)) {
+            await recordFired(alert);
+            fired += 1;
+          } else {
+            failed += 1;
+          }
+        }
+      } catch (error) {
+        failed += 1;
+        console.error(`Alert rule ${rule.id} failed for ${site.name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  console.log(`Alerts finished: ${fired} fired, ${failed} failed`);
+  return new Response(JSON.stringify({ fired, failed }), {
+    status: failed > 0 ? 500 : 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+export const config: Config = {
+  schedule: '@hourly',
+};
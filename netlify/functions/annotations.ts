@@ -0,0 +1,66 @@
+import type { Context } from "@netlify/functions";
+import { z } from "zod";
+import { annotationInputSchema } from "../../shared/analytics";
+import { createAnnotation, deleteAnnotation, listAnnotations, updateAnnotation } from "../lib/annotations";
+import { authorizeSiteRequest, invalidBody, json, readBody } from "../lib/siteRequests";
+
+// Chart annotations for one site. `siteId` (optional, defaults to the first site) goes in the query string.
+//   GET    ?from=YYYY-MM-DD&to=YYYY-MM-DD  -> { data: Annotation[] } touching those days
+//   POST   { date, endDate?, label, color? } -> 201 { data: Annotation }
+//   PUT    ?id=<id> { date, endDate?, label, color? } -> { data: Annotation }
+//   DELETE ?id=<id> -> 204
+
+const ALLOWED_METHODS = 'GET, POST, PUT, DELETE';
+
+const listQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must look like YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must look like YYYY-MM-DD').optional(),
+});
+
+export default async (req: Request, context: Context): Promise<Response> => {
+  const site = authorizeSiteRequest(req, context);
+  if (site instanceof Response) return site;
+
+  const url = new URL(req.url);
+  const id = url.searchParams.get('id');
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const query = listQuerySchema.safeParse({
+          from: url.searchParams.get('from') ?? undefined,
+          to: url.searchParams.get('to') ?? undefined,
+        });
+        if (!query.success) return invalidBody(query.error);
+        return json({ data: await listAnnotations(site.id, query.data.from, query.data.to) });
+      }
+      case 'POST':
+      case 'PUT': {
+        if (req.method === 'PUT' && !id) return json({ error: "Invalid request body: 'id' query parameter is required" }, 400);
+        const input = await readBody(req, annotationInputSchema);
+        if (!input.success) {
+          return invalidBody('message' in input ? input.message : input.error);
+        }
+        if (req.method === 'POST') {
+          return json({ data: await createAnnotation(site.id, input.data) }, 201);
+        }
+        const updated = await updateAnnotation(site.id, id as string, input.data);
+        return updated ? json({ data: updated }) : json({ error: `Annotation '${id}' not found` }, 404);
+      }
+      case 'DELETE': {
+        if (!id) return json({ error: "Invalid request body: 'id' query parameter is required" }, 400);
+        return await deleteAnnotation(site.id, id)
+          ? new Response(null, { status: 204 })
+          : json({ error: `Annotation '${id}' not found` }, 404);
+      }
+      default:
+        return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', 'Allow': ALLOWED_METHODS },
+        });
+    }
+  } catch (error) {
+    console.error(`Function Error: Annotation ${req.method} failed for ${site.name}:`, error);
+    return json({ error: "Internal server error while updating annotations.", code: 'INTERNAL_ERROR' }, 500);
+  }
+};
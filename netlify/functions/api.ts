@@ -1,69 +1,125 @@
 import type { Context, Config } from "@netlify/functions";
+import { civilDayRange, resolveComparisonRange, resolveRangeExpression, resolveTimeZone, toCivilDate } from "../lib/timeRange";
+import { WEEK_STARTS_ON } from "../lib/weekStart";
+import { batchRequestSchema, Endpoint, proxyRequestSchema, toValidationIssues } from "../lib/endpoints";
+import { isAuthMisconfigured, isAuthorized, unauthorizedResponse } from "../lib/session";
+import { findSite, SITES } from "../lib/sites";
+import { buildCacheKey, readCache, ttlFor, writeCache } from "../lib/cache";
+import { mapWithConcurrency } from "../lib/concurrency";
+import type { SiteConfig } from "../lib/sites";
+import { UpstreamError } from "../lib/upstream";
+import { ANALYTICS_PROVIDER, AnalyticsPayload, AnalyticsQuery, buildAnalyticsUrl, fetchAnalytics, requiresApiKey } from "../lib/analyticsApi";
+import { ArchivedDay, archiveCutoff, mergeWithArchive, readArchivedDays } from "../lib/archive";
+import { aggregationFor, resampleSeries, upstreamResolutionFor } from "../lib/resample";
+import { ComparisonPayload, Granularity, MAX_HOURLY_RANGE_DAYS, ProxyErrorCode, TimeSeriesResponse } from "../../shared/analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-interface DataPoint {
-  timestamp: number;
-  value: number;
-}
-
-interface CountryData {
-  count: number;
-  country_name: string;
-  resource: string;
-}
-
-interface SourceData {
-  count: number;
-  resource: string;
-}
+// These should be set as secure environment variables in Netlify build settings
+const NETLIFY_API_KEY = Netlify.env.get("NETLIFY_API_KEY");
 
-interface PageData {
-  count: number;
-  resource: string;
-}
+// How far back the upstream API keeps data; custom ranges are clamped to this window
+const RETENTION_DAYS = Number(Netlify.env.get("NETLIFY_ANALYTICS_RETENTION_DAYS")) || 365;
 
-interface BandwidthData {
-  start: number;
-  end: number;
-  siteBandwidth: number;
-  accountBandwidth: number;
-}
+// Upstream calls allowed in flight at once while serving a batch request
+const BATCH_CONCURRENCY = 4;
 
-interface BandwidthResponse {
-  data: BandwidthData[];
+interface EndpointCall {
+  key: string;
+  endpoint: Endpoint;
+  params: Record<string, string | number | undefined>;
 }
 
-interface GenericRankingResponse {
-  data: (SourceData | PageData | CountryData)[];
+// Part of a requested range that upstream and the archive can answer
+interface RangeWindow {
+  // Requested start, which may lie before the live window when archived days are merged in
+  requestedFrom: number;
+  fromTimestamp: number;
+  toTimestamp: number;
+  hasLiveRange: boolean;
+  archivedDays: ArchivedDay[];
 }
 
-interface TimeSeriesResponse {
-  data: DataPoint[];
+// Everything about the request that is shared by each endpoint call
+interface ResolvedRequest extends RangeWindow {
+  // The range as asked for, before clamping
+  period: { from: number; to: number };
+  site: SiteConfig;
+  timezone: string;
+  now: number;
+  rangeKey: string | { from: number; to: number };
+  rangeLabel: string;
+  // End of the range the cache TTL follows; a comparison period expires with the range it belongs to
+  cacheRangeEnd: number;
 }
 
-type EmptyResponse = { data: [] };
-
-export type TimeRange = '7d' | '30d' | '3m' | '1y';
+type ProxyResult =
+  | { ok: true; payload: AnalyticsPayload; body: string; cache: 'HIT' | 'MISS' }
+  | { ok: false; status: number; code: ProxyErrorCode; error: string; details?: string; retryAfter?: number };
+
+// Clamps a range to what upstream can actually answer; older days come from the archive when we have them
+const resolveWindow = async (site: SiteConfig, requested: { from: number; to: number }, now: number): Promise<RangeWindow> => {
+  const retentionStart = now - RETENTION_DAYS * DAY_MS;
+  let fromTimestamp = Math.max(requested.from, retentionStart);
+  const toTimestamp = Math.min(requested.to, now);
+
+  let archivedDays: ArchivedDay[] = [];
+  if (requested.from < retentionStart) {
+    const cutoff = archiveCutoff(retentionStart);
+    try {
+      archivedDays = await readArchivedDays(site.id, requested.from, Math.min(toTimestamp, cutoff - 1));
+    } catch (error) {
+      // Without the archive we can still answer for the retained part of the range
+      console.error("Function Error: Failed reading analytics archive:", error);
+    }
+    if (archivedDays.length > 0) {
+      // Live data picks up where the archive leaves off so no day is counted twice
+      fromTimestamp = Math.max(requested.from, cutoff);
+    }
+  }
 
-// These should be set as secure environment variables in Netlify build settings
-const NETLIFY_API_KEY = Netlify.env.get("NETLIFY_API_KEY");
-const SITE_ID = Netlify.env.get("NETLIFY_SITE_ID"); // Use non-prefixed variable
+  return {
+    requestedFrom: archivedDays.length > 0 ? requested.from : fromTimestamp,
+    fromTimestamp,
+    toTimestamp,
+    hasLiveRange: fromTimestamp < toTimestamp,
+    archivedDays,
+  };
+};
 
-const BASE_URL = 'https://analytics.services.netlify.com/v2';
+// Archived days only hold daily totals, and upstream only keeps hourly points for short ranges.
+// A day of slack covers DST changes inside month-long ranges.
+const allowsHourly = (rangeWindow: RangeWindow): boolean =>
+  rangeWindow.archivedDays.length === 0
+  && rangeWindow.toTimestamp - rangeWindow.requestedFrom <= (MAX_HOURLY_RANGE_DAYS + 1) * DAY_MS;
 
-if (!NETLIFY_API_KEY || !SITE_ID) {
-  console.error("Missing required environment variables: NETLIFY_API_KEY or NETLIFY_SITE_ID");
+if ((requiresApiKey() && !NETLIFY_API_KEY) || SITES.length === 0) {
+  console.error("Missing required environment variables: NETLIFY_API_KEY or NETLIFY_SITES / NETLIFY_SITE_ID");
   // Don't throw here in the global scope, handle in the handler
 }
 
 export default async (req: Request, context: Context): Promise<Response> => {
-  if (!NETLIFY_API_KEY || !SITE_ID) {
-    console.error("Function Error: Missing NETLIFY_API_KEY or NETLIFY_SITE_ID environment variables.");
+  if ((requiresApiKey() && !NETLIFY_API_KEY) || SITES.length === 0) {
+    console.error("Function Error: Missing NETLIFY_API_KEY or NETLIFY_SITES / NETLIFY_SITE_ID environment variables.");
+    return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isAuthMisconfigured()) {
+    console.error("Function Error: DASHBOARD_PASSWORD(_HASH) is set but SESSION_SECRET is missing.");
     return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
       status: 500,
       headers: { 'Content-Type': 'application/json' },
     });
   }
 
+  // Never spend the API key on behalf of someone who has not logged in
+  if (!isAuthorized(context)) {
+    return unauthorizedResponse();
+  }
+
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
       status: 405,
@@ -71,128 +127,245 @@ export default async (req: Request, context: Context): Promise<Response> => {
     });
   }
 
-  let endpoint: string;
-  let params: Record<string, string | number> | undefined;
-  let timeRange: TimeRange;
-
+  let body: unknown;
   try {
-    const body = await req.json();
-    endpoint = body.endpoint;
-    params = body.params;
-    timeRange = body.timeRange || '30d';
+    body = await req.json();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Function Error: Invalid request body:", message);
+    return new Response(JSON.stringify({ error: `Invalid request body: ${message}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-    if (!endpoint) {
-      throw new Error("Missing 'endpoint' in request body");
-    }
-    if (typeof endpoint !== 'string') {
-       throw new Error("'endpoint' must be a string");
-    }
-     if (timeRange && !['7d', '30d', '3m', '1y'].includes(timeRange)) {
-       throw new Error("Invalid 'timeRange' value");
-     }
+  const isBatch = typeof body === 'object' && body !== null && 'batch' in body;
+  const parsed = isBatch ? batchRequestSchema.safeParse(body) : proxyRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const issues = toValidationIssues(parsed.error);
+    console.error("Function Error: Invalid request body:", issues);
+    return new Response(JSON.stringify({
+      error: `Invalid request body: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues,
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { timeRange, from: customFrom, to: customTo, compare } = parsed.data;
+  const calls: EndpointCall[] = 'batch' in parsed.data
+    ? parsed.data.batch
+    : [{ key: parsed.data.endpoint, endpoint: parsed.data.endpoint, params: parsed.data.params }];
 
-  } catch (error: any) {
-    console.error("Function Error: Invalid request body:", error.message);
-    return new Response(JSON.stringify({ error: `Invalid request body: ${error.message}` }), {
+  const site = findSite(parsed.data.siteId);
+  if (!site) {
+    // Only reachable when no sites are configured; explicit ids were checked by the schema
+    return new Response(JSON.stringify({ error: "Invalid request body: no site configured" }), {
       status: 400,
       headers: { 'Content-Type': 'application/json' },
     });
   }
 
+  // Try to get timezone from client headers if available, otherwise use the server's timezone
+  const timezone = resolveTimeZone(req.headers.get('X-Client-Timezone'));
+
   const now = Date.now();
-  let fromTimestamp: number;
-
-  switch (timeRange) {
-    case '7d':
-      fromTimestamp = now - 7 * 24 * 60 * 60 * 1000;
-      break;
-    case '3m':
-      fromTimestamp = now - 90 * 24 * 60 * 60 * 1000;
-      break;
-    case '1y':
-      fromTimestamp = now - 365 * 24 * 60 * 60 * 1000;
-      break;
-    case '30d':
-    default:
-      fromTimestamp = now - 30 * 24 * 60 * 60 * 1000;
-      break;
-  }
-
-  // Try to get timezone from client headers if available, otherwise use a default or server's timezone
-  const timezoneHeader = req.headers.get('X-Client-Timezone');
-  const timezone = timezoneHeader || Intl.DateTimeFormat().resolvedOptions().timeZone; // Fallback
-
-  const queryParams: Record<string, string | number> = {
-    from: fromTimestamp,
-    to: now,
-    timezone: timezone,
-    ...params,
+  const customRange = customFrom !== undefined && customTo !== undefined
+    ? { from: customFrom, to: customTo }
+    : undefined;
+  const requestedRange = customRange
+    ?? resolveRangeExpression(timeRange, { now, timeZone: timezone, weekStartsOn: WEEK_STARTS_ON });
+
+  const rangeWindow = await resolveWindow(site, requestedRange, now);
+  if (!rangeWindow.hasLiveRange && rangeWindow.archivedDays.length === 0) {
+    return new Response(JSON.stringify({
+      error: `Invalid request body: requested range is outside the last ${RETENTION_DAYS} days of retained data`,
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const resolved: ResolvedRequest = {
+    site,
+    timezone,
+    now,
+    period: requestedRange,
+    ...rangeWindow,
+    rangeKey: customRange ?? timeRange,
+    rangeLabel: customRange
+      ? `${new Date(rangeWindow.fromTimestamp).toISOString()}..${new Date(rangeWindow.toTimestamp).toISOString()}`
+      : timeRange,
+    cacheRangeEnd: rangeWindow.toTimestamp,
   };
 
-  const queryString = Object.entries(queryParams)
-    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
-    .join('&');
+  if (!allowsHourly(rangeWindow) && calls.some(call => call.params.granularity === 'hourly')) {
+    return new Response(JSON.stringify({
+      error: `Invalid request body: hourly granularity is only available for ranges of up to ${MAX_HOURLY_RANGE_DAYS} days within the last ${RETENTION_DAYS} days`,
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-  const url = `${BASE_URL}/${SITE_ID}${endpoint}?${queryString}`;
-  console.log("Proxying request to:", url, "for time range:", timeRange);
+  // The earlier period is served like any other range, but never fails the request itself
+  let comparison: ResolvedRequest | undefined;
+  if (compare) {
+    const comparisonRange = resolveComparisonRange(requestedRange, customRange ? undefined : timeRange, compare, {
+      now,
+      timeZone: timezone,
+      weekStartsOn: WEEK_STARTS_ON,
+    });
+    comparison = {
+      site,
+      timezone,
+      now,
+      period: comparisonRange,
+      ...await resolveWindow(site, comparisonRange, now),
+      // Rolling ranges keep their key so the comparison is cached (and expires) alongside the range itself
+      rangeKey: customRange ? comparisonRange : `${compare}:${timeRange}`,
+      rangeLabel: `${compare} of ${resolved.rangeLabel}`,
+      cacheRangeEnd: rangeWindow.toTimestamp,
+    };
+  }
 
-  try {
-    const netlifyResponse = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${NETLIFY_API_KEY}`,
-      },
+  if (!isBatch) {
+    const [result, previous] = await Promise.all([
+      proxyEndpoint(calls[0], resolved),
+      comparison && compareEndpoint(calls[0], comparison),
+    ]);
+    if (!result.ok) {
+      // Return a structured error response to the client
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (result.retryAfter !== undefined) headers['Retry-After'] = String(result.retryAfter);
+      return new Response(JSON.stringify({
+        error: result.error,
+        code: result.code,
+        status: result.status,
+        details: result.details,
+        retryAfter: result.retryAfter,
+      }), {
+        status: result.status,
+        headers,
+      });
+    }
+    // Return the successful JSON data
+    return new Response(previous ? JSON.stringify({ ...result.payload, previous }) : result.body, {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'X-Cache': result.cache },
     });
+  }
+
+  console.log("Serving batch of", calls.length, "endpoints for site:", site.name, "time range:", resolved.rangeLabel);
+  const results = await mapWithConcurrency(calls, BATCH_CONCURRENCY, (call) => proxyEndpoint(call, resolved));
+  const previous = comparison
+    ? await mapWithConcurrency(calls, BATCH_CONCURRENCY, (call) => compareEndpoint(call, comparison))
+    : [];
+
+  // Always 200: each entry carries its own status so one failing card doesn't sink the rest
+  return new Response(JSON.stringify({
+    results: Object.fromEntries(calls.map((call, index) => {
+      const result = results[index];
+      return [call.key, result.ok
+        ? { ok: true, status: 200, cache: result.cache, data: result.payload, previous: previous[index] }
+        : { ok: false, status: result.status, code: result.code, error: result.error, details: result.details, retryAfter: result.retryAfter }];
+    })),
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+// Fetches one endpoint for the resolved site and range, going through the response cache
+const proxyEndpoint = async (call: EndpointCall, resolved: ResolvedRequest): Promise<ProxyResult> => {
+  const { endpoint, params } = call;
+  const { site, timezone, now, fromTimestamp, toTimestamp, rangeLabel } = resolved;
+
+  const cacheKey = buildCacheKey({
+    siteId: site.id,
+    endpoint,
+    params,
+    range: resolved.rangeKey,
+    timezone,
+    weekStartsOn: WEEK_STARTS_ON,
+  });
+
+  const cachedBody = await readCache(cacheKey);
+  if (cachedBody !== null) {
+    console.log("Serving cached response for", endpoint, "site:", site.name, "time range:", rangeLabel);
+    return { ok: true, payload: JSON.parse(cachedBody) as AnalyticsPayload, body: cachedBody, cache: 'HIT' };
+  }
+
+  // Validated by the endpoint schema; only timeseries endpoints accept it
+  const { granularity, ...upstreamParams } = params as { granularity?: Granularity } & typeof params;
+
+  const query: AnalyticsQuery = {
+    siteId: site.id,
+    endpoint,
+    params: granularity ? { ...upstreamParams, resolution: upstreamResolutionFor(granularity) } : upstreamParams,
+    from: fromTimestamp,
+    to: toTimestamp,
+    timezone,
+  };
 
-    if (!netlifyResponse.ok) {
-       const errorBody = await netlifyResponse.text();
-       console.error("Netlify API Error (via proxy):", netlifyResponse.status, netlifyResponse.statusText, errorBody);
-       // Return a structured error response to the client
-       return new Response(JSON.stringify({
-           error: `Netlify API Error: ${netlifyResponse.statusText}`,
-           status: netlifyResponse.status,
-           details: errorBody
-        }), {
-         status: netlifyResponse.status, // Forward the status
-         headers: { 'Content-Type': 'application/json' },
-       });
+  try {
+    let payload: AnalyticsPayload = { data: [] };
+    if (resolved.hasLiveRange) {
+      console.log(requiresApiKey() ? "Proxying request to:" : `Serving ${ANALYTICS_PROVIDER} response for:`, buildAnalyticsUrl(query), "for site:", site.name, "time range:", rangeLabel);
+      payload = await fetchAnalytics(query, rangeLabel);
     }
 
-    const jsonData = await netlifyResponse.json();
-
-    // Optional: Add specific logging if needed, similar to the original
-    // if (endpoint.includes('/ranking/sources')) { ... }
-
-    // Handle potential data structure mismatches, e.g., for bandwidth
-     if (endpoint === '/bandwidth') {
-        if (!jsonData.data || !Array.isArray(jsonData.data)) {
-             console.warn("Proxy: Bandwidth data structure mismatch for", timeRange, ", wrapping:", jsonData);
-             if (jsonData.start && jsonData.end && jsonData.siteBandwidth !== undefined) {
-                return new Response(JSON.stringify({ data: [jsonData] }), { headers: { 'Content-Type': 'application/json' } });
-             }
-             if (typeof jsonData === 'object' && Object.keys(jsonData).length === 0) {
-                 return new Response(JSON.stringify({ data: [] }), { headers: { 'Content-Type': 'application/json' } });
-             }
-             // Return empty data if structure is unexpected but not clearly a single record
-             return new Response(JSON.stringify({ data: [] }), { headers: { 'Content-Type': 'application/json' } });
-        } else if (jsonData.data.length === 0) {
-             console.log("Proxy: Received empty data array for bandwidth for", timeRange);
-             // Fall through to return the empty data array normally
-        }
-     }
+    if (resolved.archivedDays.length > 0) {
+      console.log("Merging", resolved.archivedDays.length, "archived days into", endpoint, "for site:", site.name);
+      const limit = typeof params.limit === 'number' ? params.limit : undefined;
+      payload = mergeWithArchive(endpoint, payload, resolved.archivedDays, { from: resolved.requestedFrom, to: toTimestamp }, limit);
+    }
 
+    if (granularity && (endpoint === '/pageviews' || endpoint === '/visitors')) {
+      payload = {
+        data: resampleSeries((payload as TimeSeriesResponse).data, granularity, aggregationFor(endpoint), {
+          timeZone: timezone,
+          weekStartsOn: WEEK_STARTS_ON,
+        }),
+      };
+    }
 
-    // Return the successful JSON data
-    return new Response(JSON.stringify(jsonData), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    const body = JSON.stringify(payload);
+    const today = civilDayRange(toCivilDate(now, timezone), timezone);
+    await writeCache(cacheKey, body, ttlFor(endpoint, resolved.cacheRangeEnd, today, now, typeof resolved.rangeKey === 'string'));
+
+    return { ok: true, payload, body, cache: 'MISS' };
+
+  } catch (error) {
+     if (error instanceof UpstreamError) {
+       console.error(`Function Error: Failed fetching ${endpoint} (${rangeLabel}) via proxy: ${error.code}`, error.message);
+       return {
+         ok: false,
+         status: error.status,
+         code: error.code,
+         error: error.message,
+         details: error.details,
+         retryAfter: error.retryAfter,
+       };
+     }
+     console.error(`Function Error: Failed fetching ${endpoint} (${rangeLabel}) via proxy:`, error);
+     return { ok: false, status: 500, code: 'INTERNAL_ERROR', error: "Internal server error while contacting Netlify API." };
+  }
+};
 
-  } catch (error: any) {
-     console.error(`Function Error: Failed fetching ${endpoint} (${timeRange}) via proxy:`, error);
-     // Return a generic server error response
-     return new Response(JSON.stringify({ error: "Internal server error while contacting Netlify API." }), {
-       status: 500,
-       headers: { 'Content-Type': 'application/json' },
-     });
+// The same call for the comparison period, as the `previous` field of a response. Failures are
+// reported in its `error` so the current period still renders.
+const compareEndpoint = async (call: EndpointCall, comparison: ResolvedRequest): Promise<ComparisonPayload> => {
+  const range = { from: comparison.period.from, to: comparison.period.to };
+  if (!comparison.hasLiveRange && comparison.archivedDays.length === 0) {
+    return { ...range, data: [], error: 'No data retained for the comparison period' };
+  }
+  if (call.params.granularity === 'hourly' && !allowsHourly(comparison)) {
+    return { ...range, data: [], error: 'Hourly data is not available for the comparison period' };
   }
+  const result = await proxyEndpoint(call, comparison);
+  return result.ok
+    ? { ...range, ...result.payload }
+    : { ...range, data: [], error: result.error };
 };
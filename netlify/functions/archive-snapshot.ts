@@ -0,0 +1,109 @@
+import type { Config } from "@netlify/functions";
+import { fetchAnalytics } from "../lib/analyticsApi";
+import {
+  ARCHIVE_TIMEZONE,
+  ArchivedDay,
+  RankingName,
+  RANKINGS,
+  readArchivedDay,
+  writeArchivedDay,
+} from "../lib/archive";
+import { MAX_RANKING_LIMIT, TimeSeriesRow } from "../../shared/analytics";
+import { mapWithConcurrency } from "../lib/concurrency";
+import { SITES, SiteConfig } from "../lib/sites";
+import { addCivilDays, civilDayRange, toCivilDate } from "../lib/timeRange";
+
+// Runs every hour and copies the previous (closed) day of every site into the archive.
+// Days missed by earlier runs are caught up, up to ARCHIVE_CATCH_UP_DAYS back. Each run
+// captures at most ARCHIVE_MAX_DAYS_PER_RUN site-days, newest first, so a long backlog is
+// spread over several runs instead of running into the scheduled function time limit.
+// Once everything is archived a run only reads what's already there.
+
+const CATCH_UP_DAYS = Number(Netlify.env.get("ARCHIVE_CATCH_UP_DAYS")) || 7;
+
+// Each site-day takes 7 upstream requests, plus retries
+const MAX_DAYS_PER_RUN = Number(Netlify.env.get("ARCHIVE_MAX_DAYS_PER_RUN")) || 4;
+
+// Ranking endpoints cap `limit`; the longest list upstream gives is what gets kept per day
+const RANKING_LIMIT = MAX_RANKING_LIMIT;
+
+const SNAPSHOT_CONCURRENCY = 2;
+
+const sumPoints = (rows: TimeSeriesRow[]): number =>
+  rows.reduce((total, [, value]) => total + value, 0);
+
+// The day's unique visitors, which only a single daily bucket holds. Anything else is left
+// out (null) rather than summed, since adding sub-day points counts returning visitors again.
+const dailyVisitors = (rows: TimeSeriesRow[], label: string): number | null => {
+  if (rows.length === 1) return rows[0][1];
+  console.warn(`Archive snapshot: expected one daily visitors point for ${label}, got ${rows.length}; not archiving visitors`);
+  return null;
+};
+
+const captureDay = async (site: SiteConfig, date: string): Promise<ArchivedDay> => {
+  const { from, to } = civilDayRange(date, ARCHIVE_TIMEZONE);
+  const query = { siteId: site.id, from, to, timezone: ARCHIVE_TIMEZONE };
+  const label = `${site.name} ${date}`;
+
+  // One daily point each: unique visitors from hourly points can't be added up into a day
+  const [pageviews, visitors, bandwidth] = await Promise.all([
+    fetchAnalytics({ ...query, endpoint: '/pageviews', params: { resolution: 'day' } }, label),
+    fetchAnalytics({ ...query, endpoint: '/visitors', params: { resolution: 'day' } }, label),
+    fetchAnalytics({ ...query, endpoint: '/bandwidth' }, label),
+  ]);
+
+  const names = Object.keys(RANKINGS) as RankingName[];
+  const rankings = await mapWithConcurrency(names, SNAPSHOT_CONCURRENCY, (name) =>
+    fetchAnalytics({ ...query, endpoint: RANKINGS[name], params: { limit: RANKING_LIMIT } }, label));
+
+  return {
+    siteId: site.id,
+    date,
+    timezone: ARCHIVE_TIMEZONE,
+    capturedAt: Date.now(),
+    source: 'snapshot',
+    pageviews: sumPoints(pageviews.data),
+    visitors: dailyVisitors(visitors.data, label),
+    bandwidth: bandwidth.data[0]?.siteBandwidth ?? null,
+    rankings: Object.fromEntries(names.map((name, index) => [name, rankings[index].data])),
+  };
+};
+
+export default async (): Promise<Response> => {
+  const yesterday = addCivilDays(toCivilDate(Date.now(), ARCHIVE_TIMEZONE), -1);
+  const dates = Array.from({ length: CATCH_UP_DAYS }, (_, index) => addCivilDays(yesterday, -index));
+
+  // Newest day of every site first, so yesterday is never stuck behind an older backlog
+  const missing: { site: SiteConfig; date: string }[] = [];
+  for (const date of dates) {
+    for (const site of SITES) {
+      // Snapshots and imports are never overwritten, so reruns are harmless
+      if (!(await readArchivedDay(site.id, date))) missing.push({ site, date });
+    }
+  }
+
+  let captured = 0;
+  let failed = 0;
+
+  for (const { site, date } of missing.slice(0, MAX_DAYS_PER_RUN)) {
+    try {
+      await writeArchivedDay(await captureDay(site, date));
+      captured += 1;
+    } catch (error) {
+      // Leave the day missing so the next run tries it again
+      failed += 1;
+      console.error(`Archive snapshot failed for ${site.name} on ${date}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const remaining = Math.max(0, missing.length - MAX_DAYS_PER_RUN);
+  console.log(`Archive snapshot finished: ${captured} day(s) captured, ${failed} failed, ${remaining} left for later runs`);
+  return new Response(JSON.stringify({ captured, failed, remaining }), {
+    status: failed > 0 ? 500 : 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+export const config: Config = {
+  schedule: '@hourly',
+};
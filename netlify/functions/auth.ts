@@ -0,0 +1,78 @@
+import type { Context } from "@netlify/functions";
+import {
+  endSession,
+  getSession,
+  isAuthEnabled,
+  isAuthMisconfigured,
+  startSession,
+  verifyPassword,
+} from "../lib/session";
+
+// GET    -> current session state
+// POST   -> log in with { password }
+// DELETE -> log out
+export default async (req: Request, context: Context): Promise<Response> => {
+  if (isAuthMisconfigured()) {
+    console.error("Function Error: DASHBOARD_PASSWORD(_HASH) is set but SESSION_SECRET is missing.");
+    return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (req.method === 'GET') {
+    const session = isAuthEnabled() ? getSession(context) : null;
+    return new Response(JSON.stringify({
+      authRequired: isAuthEnabled(),
+      authenticated: !isAuthEnabled() || session !== null,
+      expiresAt: session ? session.exp * 1000 : null,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    endSession(context);
+    return new Response(null, { status: 204 });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', 'Allow': 'GET, POST, DELETE' },
+    });
+  }
+
+  if (!isAuthEnabled()) {
+    return new Response(JSON.stringify({ error: "Login is not enabled on this deployment." }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let password: unknown;
+  try {
+    ({ password } = await req.json());
+  } catch {
+    password = undefined;
+  }
+
+  if (typeof password !== 'string' || !verifyPassword(password)) {
+    console.warn("Auth: rejected login attempt");
+    return new Response(JSON.stringify({ error: "Invalid password.", code: 'INVALID_CREDENTIALS' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const session = startSession(context);
+  return new Response(JSON.stringify({
+    authRequired: true,
+    authenticated: true,
+    expiresAt: session.exp * 1000,
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+};
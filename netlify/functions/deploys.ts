@@ -0,0 +1,110 @@
+import type { Context } from "@netlify/functions";
+import { resolveRangeExpression, resolveTimeZone } from "../lib/timeRange";
+import { WEEK_STARTS_ON } from "../lib/weekStart";
+import { deploysRequestSchema, toValidationIssues } from "../lib/endpoints";
+import { isAuthMisconfigured, isAuthorized, unauthorizedResponse } from "../lib/session";
+import { findSite, SITES } from "../lib/sites";
+import { requiresApiKey } from "../lib/analyticsApi";
+import { fetchDeploys } from "../lib/deploysApi";
+import { UpstreamError } from "../lib/upstream";
+
+// Published deploys of a site over a range, drawn as markers on the dashboard charts.
+// Takes the same site and range fields as the api proxy.
+
+const NETLIFY_API_KEY = Netlify.env.get("NETLIFY_API_KEY");
+
+
+export default async (req: Request, context: Context): Promise<Response> => {
+  if ((requiresApiKey() && !NETLIFY_API_KEY) || SITES.length === 0) {
+    console.error("Function Error: Missing NETLIFY_API_KEY or NETLIFY_SITES / NETLIFY_SITE_ID environment variables.");
+    return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isAuthMisconfigured()) {
+    console.error("Function Error: DASHBOARD_PASSWORD(_HASH) is set but SESSION_SECRET is missing.");
+    return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!isAuthorized(context)) {
+    return unauthorizedResponse();
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', 'Allow': 'POST' },
+    });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: `Invalid request body: ${message}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const parsed = deploysRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const issues = toValidationIssues(parsed.error);
+    return new Response(JSON.stringify({
+      error: `Invalid request body: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues,
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const site = findSite(parsed.data.siteId);
+  if (!site) {
+    return new Response(JSON.stringify({ error: "Invalid request body: no site configured" }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const timezone = resolveTimeZone(req.headers.get('X-Client-Timezone'));
+  const { timeRange, from, to } = parsed.data;
+  const range = from !== undefined && to !== undefined
+    ? { from, to }
+    : resolveRangeExpression(timeRange, { now: Date.now(), timeZone: timezone, weekStartsOn: WEEK_STARTS_ON });
+
+  try {
+    const data = await fetchDeploys(site.id, range.from, range.to, timezone, site.name);
+    return new Response(JSON.stringify({ data }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof UpstreamError) {
+      console.error(`Function Error: Failed fetching deploys for ${site.name}: ${error.code}`, error.message);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (error.retryAfter !== undefined) headers['Retry-After'] = String(error.retryAfter);
+      return new Response(JSON.stringify({
+        error: error.message,
+        code: error.code,
+        status: error.status,
+        details: error.details,
+        retryAfter: error.retryAfter,
+      }), {
+        status: error.status,
+        headers,
+      });
+    }
+    console.error(`Function Error: Failed fetching deploys for ${site.name}:`, error);
+    return new Response(JSON.stringify({ error: "Internal server error while contacting Netlify API.", code: 'INTERNAL_ERROR' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
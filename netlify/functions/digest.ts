@@ -0,0 +1,58 @@
+import type { Config } from "@netlify/functions";
+import { collectDigest, getDigestConfig, isDigestDue, renderDigest } from "../lib/digest";
+import { isMailConfigured, sendMail } from "../lib/mailer";
+import { SITES } from "../lib/sites";
+
+// Emails the analytics digest for every configured site. Runs daily and only sends when
+// the configured cadence is due; invoke with a `{ "force": true }` body to send right away
+// (e.g. `netlify functions:invoke digest --payload '{"force":true}'` against a local SMTP catcher).
+
+export default async (req: Request): Promise<Response> => {
+  const config = getDigestConfig();
+
+  if (config.recipients.length === 0 || !isMailConfigured()) {
+    console.log("Digest skipped: DIGEST_RECIPIENTS or SMTP_HOST is not set");
+    return new Response(JSON.stringify({ sent: 0, skipped: 'not configured' }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let force = false;
+  try {
+    ({ force = false } = await req.json() as { force?: boolean });
+  } catch {
+    // Scheduled invocations send `{ next_run }`; anything unparsable just means no override
+  }
+
+  const now = Date.now();
+  if (!force && !isDigestDue(config, now)) {
+    return new Response(JSON.stringify({ sent: 0, skipped: 'not due' }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let sent = 0;
+  let failed = 0;
+  for (const site of SITES) {
+    try {
+      const message = renderDigest(await collectDigest(site, config, now), config.sections);
+      await sendMail({ to: config.recipients, ...message });
+      sent += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Digest failed for ${site.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`Digest finished: ${sent} sent, ${failed} failed`);
+  return new Response(JSON.stringify({ sent, failed }), {
+    status: failed > 0 ? 500 : 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+export const config: Config = {
+  schedule: '@daily',
+};
@@ -0,0 +1,102 @@
+import type { Context } from "@netlify/functions";
+import { z } from "zod";
+import { IMPORT_KINDS, runImport } from "../lib/csvImport";
+import { toValidationIssues } from "../lib/endpoints";
+import { isAuthMisconfigured, isAuthorized, unauthorizedResponse } from "../lib/session";
+import { findSite } from "../lib/sites";
+
+// Backfills the archive from Netlify UI CSV exports (see scripts/import-csv.mjs).
+// POST { siteId?, dryRun?, files: [{ name, content, kind?, date? }] } -> import report
+
+// Keeps a single upload comfortably inside the function's request size limit
+const MAX_FILES = 50;
+const MAX_TOTAL_BYTES = 5 * 1024 * 1024;
+
+const importRequestSchema = z.object({
+  siteId: z.string()
+    .refine((siteId) => findSite(siteId) !== undefined, (siteId) => ({
+      message: `Unknown site '${siteId}'`,
+    }))
+    .optional(),
+  dryRun: z.boolean().default(false),
+  files: z.array(z.object({
+    name: z.string().min(1).max(200),
+    content: z.string(),
+    kind: z.enum(IMPORT_KINDS).optional(),
+    date: z.string().optional(),
+  }).strict()).min(1).max(MAX_FILES),
+}).strict().refine(
+  (body) => body.files.reduce((total, file) => total + file.content.length, 0) <= MAX_TOTAL_BYTES,
+  { message: `Files may not exceed ${MAX_TOTAL_BYTES} bytes in total`, path: ['files'] },
+);
+
+export default async (req: Request, context: Context): Promise<Response> => {
+  if (isAuthMisconfigured()) {
+    console.error("Function Error: DASHBOARD_PASSWORD(_HASH) is set but SESSION_SECRET is missing.");
+    return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!isAuthorized(context)) {
+    return unauthorizedResponse();
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', 'Allow': 'POST' },
+    });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: `Invalid request body: ${message}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const parsed = importRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const issues = toValidationIssues(parsed.error);
+    return new Response(JSON.stringify({
+      error: `Invalid request body: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues,
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const site = findSite(parsed.data.siteId);
+  if (!site) {
+    return new Response(JSON.stringify({ error: "Invalid request body: no site configured" }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const report = await runImport(site.id, parsed.data.files, { dryRun: parsed.data.dryRun });
+    console.log(
+      `CSV import for ${site.name}${report.dryRun ? ' (dry run)' : ''}:`,
+      `${report.totals.created} created, ${report.totals.updated} updated, ${report.totals.unchanged} unchanged,`,
+      `${report.totals.rejectedRows} rows rejected`,
+    );
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error("Function Error: CSV import failed:", error);
+    return new Response(JSON.stringify({ error: "Internal server error while importing." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
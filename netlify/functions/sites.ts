@@ -0,0 +1,30 @@
+import type { Context } from "@netlify/functions";
+import { isAuthMisconfigured, isAuthorized, unauthorizedResponse } from "../lib/session";
+import { SITES } from "../lib/sites";
+
+// Lists the configured sites for the dashboard's site switcher
+export default async (req: Request, context: Context): Promise<Response> => {
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', 'Allow': 'GET' },
+    });
+  }
+
+  if (isAuthMisconfigured()) {
+    console.error("Function Error: DASHBOARD_PASSWORD(_HASH) is set but SESSION_SECRET is missing.");
+    return new Response(JSON.stringify({ error: "Internal server configuration error." }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!isAuthorized(context)) {
+    return unauthorizedResponse();
+  }
+
+  return new Response(JSON.stringify({ data: SITES }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
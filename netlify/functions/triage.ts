@@ -0,0 +1,45 @@
+import type { Context } from "@netlify/functions";
+import { triageInputSchema, triageReviewInputSchema } from "../../shared/analytics";
+import { authorizeSiteRequest, invalidBody, json, readBody } from "../lib/siteRequests";
+import { getTriage, recordReview, setTriage } from "../lib/triage";
+
+// 404 triage for one site. `siteId` (optional, defaults to the first site) goes in the query string.
+//   GET                            -> { data: { entries: TriageEntry[], review: TriageReview | null } }
+//   PUT  { path, status, note? }   -> { data: TriageEntry }
+//   POST { paths }                 -> { data: TriageReview }, marks those paths as reviewed
+
+const ALLOWED_METHODS = 'GET, PUT, POST';
+
+export default async (req: Request, context: Context): Promise<Response> => {
+  const site = authorizeSiteRequest(req, context);
+  if (site instanceof Response) return site;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return json({ data: await getTriage(site.id) });
+      case 'PUT': {
+        const input = await readBody(req, triageInputSchema);
+        if (!input.success) {
+          return invalidBody('message' in input ? input.message : input.error);
+        }
+        return json({ data: await setTriage(site.id, input.data) });
+      }
+      case 'POST': {
+        const input = await readBody(req, triageReviewInputSchema);
+        if (!input.success) {
+          return invalidBody('message' in input ? input.message : input.error);
+        }
+        return json({ data: await recordReview(site.id, input.data.paths) });
+      }
+      default:
+        return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', 'Allow': ALLOWED_METHODS },
+        });
+    }
+  } catch (error) {
+    console.error(`Function Error: Triage ${req.method} failed for ${site.name}:`, error);
+    return json({ error: "Internal server error while updating 404 triage.", code: 'INTERNAL_ERROR' }, 500);
+  }
+};
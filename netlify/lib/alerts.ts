@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { fetchAnalytics } from "./analyticsApi";
+import type { BandwidthResponse, RankingResponse, TimeSeriesResponse } from "../../shared/analytics";
+import type { Endpoint } from "./endpoints";
+import type { SiteConfig } from "./sites";
+import { getStore } from "./storage";
+import { startOfBucket } from "./timeRange";
+
+// Alert rules evaluated by the `alerts` scheduled function. Rules come from ALERT_RULES, a
+// JSON array such as
+//   [{"id":"traffic-drop","metric":"pageviews","window":"1d","comparison":"below","zScore":3},
+//    {"id":"bandwidth-quota","metric":"bandwidth","window":"30d","comparison":"above","threshold":80000000000}]
+// A rule fires either when the window's value crosses `threshold`, or when it sits `zScore`
+// standard deviations away from the preceding `baselineWindows` windows of the same length.
+// `not_found` rules are evaluated per 404 path (or only for `resource` when given).
+
+export const ALERT_METRICS = {
+  pageviews: '/pageviews',
+  visitors: '/visitors',
+  not_found: '/ranking/not_found',
+  bandwidth: '/bandwidth',
+} as const satisfies Record<string, Endpoint>;
+
+export type AlertMetric = keyof typeof ALERT_METRICS;
+
+const WINDOW_PATTERN = /^(\d{1,4})([hd])$/;
+const HOUR_MS = 60 * 60 * 1000;
+
+// 404 paths examined per window; upstream caps ranking limits at 100
+const NOT_FOUND_LIMIT = 100;
+
+const alertRuleSchema = z.object({
+  id: z.string().min(1),
+  siteId: z.string().min(1).optional(),
+  metric: z.enum(Object.keys(ALERT_METRICS) as [AlertMetric, ...AlertMetric[]]),
+  resource: z.string().min(1).optional(),
+  window: z.string().regex(WINDOW_PATTERN, "window must look like '24h' or '7d'").default('1d'),
+  comparison: z.enum(['above', 'below']),
+  threshold: z.number().finite().optional(),
+  zScore: z.number().positive().optional(),
+  baselineWindows: z.number().int().min(2).max(30).default(8),
+  cooldownHours: z.number().min(0).default(24),
+}).strict().refine(
+  (rule) => (rule.threshold === undefined) !== (rule.zScore === undefined),
+  { message: "each rule needs exactly one of 'threshold' or 'zScore'" },
+).refine(
+  (rule) => rule.resource === undefined || rule.metric === 'not_found',
+  { message: "'resource' only applies to not_found rules", path: ['resource'] },
+);
+
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+
+const alertRulesSchema = z.array(alertRuleSchema).refine(
+  (rules) => new Set(rules.map((rule) => rule.id)).size === rules.length,
+  { message: 'rule ids must be unique' },
+);
+
+const loadRules = (): AlertRule[] => {
+  const rulesJson = Netlify.env.get("ALERT_RULES");
+  if (!rulesJson) return [];
+  try {
+    const parsed = alertRulesSchema.safeParse(JSON.parse(rulesJson));
+    if (parsed.success) return parsed.data;
+    console.error("ALERT_RULES is invalid:", parsed.error.issues);
+  } catch (error) {
+    console.error("ALERT_RULES is not valid JSON:", error);
+  }
+  return [];
+};
+
+export const ALERT_RULES: AlertRule[] = loadRules();
+
+export interface Alert {
+  ruleId: string;
+  site: SiteConfig;
+  metric: AlertMetric;
+  resource?: string;
+  window: string;
+  comparison: 'above' | 'below';
+  value: number;
+  threshold?: number;
+  zScore?: number;
+  baseline?: { mean: number; stddev: number };
+  message: string;
+  firedAt: number;
+}
+
+const windowMs = (window: string): number => {
+  const [, amount, unit] = WINDOW_PATTERN.exec(window) as RegExpExecArray;
+  return Number(amount) * (unit === 'd' ? 24 : 1) * HOUR_MS;
+};
+
+// Value of the metric in one window, keyed by resource for not_found and '' otherwise
+const measureWindow = async (rule: AlertRule, site: SiteConfig, from: number, to: number): Promise<Map<string, number>> => {
+  const payload = await fetchAnalytics({
+    siteId: site.id,
+    endpoint: ALERT_METRICS[rule.metric],
+    params: rule.metric === 'not_found' ? { limit: NOT_FOUND_LIMIT } : {},
+    from,
+    to,
+    timezone: 'UTC',
+  }, `alert ${rule.id}`);
+
+  if (rule.metric === 'not_found') {
+    return new Map((payload as RankingResponse).data.map((row) => [row.resource, row.count]));
+  }
+  if (rule.metric === 'bandwidth') {
+    return new Map([['', (payload as BandwidthResponse).data[0]?.siteBandwidth ?? 0]]);
+  }
+  return new Map([['', (payload as TimeSeriesResponse).data.reduce((total, [, value]) => total + value, 0)]]);
+};
+
+const describe = (metric: AlertMetric, resource?: string) =>
+  metric === 'not_found' ? `404 hits for ${resource}` : metric === 'bandwidth' ? 'bandwidth' : metric;
+
+export const evaluateRule = async (rule: AlertRule, site: SiteConfig, now: number): Promise<Alert[]> => {
+  const length = windowMs(rule.window);
+  const windows = rule.zScore === undefined ? 1 : rule.baselineWindows + 1;
+  // Windows end where the current hour starts: the hour in progress only has partial data,
+  // which would look like a drop to every "below" rule
+  const end = startOfBucket(now, 'hourly', { timeZone: 'UTC', weekStartsOn: 1 });
+  // Window 0 is the latest complete one, the rest form the baseline, newest first
+  const measured: Map<string, number>[] = [];
+  for (let index = 0; index < windows; index++) {
+    measured.push(await measureWindow(rule, site, end - (index + 1) * length, end - index * length - 1));
+  }
+
+  const resources = rule.metric !== 'not_found'
+    ? ['']
+    : rule.resource !== undefined ? [rule.resource] : [...measured[0].keys()];
+
+  const alerts: Alert[] = [];
+  for (const resource of resources) {
+    const value = measured[0].get(resource) ?? 0;
+    const base = {
+      ruleId: rule.id,
+      site,
+      metric: rule.metric,
+      resource: resource || undefined,
+      window: rule.window,
+      comparison: rule.comparison,
+      value,
+      firedAt: now,
+    };
+    const label = `${describe(rule.metric, resource)} on ${site.name} over the last ${rule.window}`;
+
+    if (rule.threshold !== undefined) {
+      const crossed = rule.comparison === 'above' ? value > rule.threshold : value < rule.threshold;
+      if (crossed) {
+        alerts.push({
+          ...base,
+          threshold: rule.threshold,
+          message: `${label} is ${value.toLocaleString('en-US')}, ${rule.comparison} the threshold of ${rule.threshold.toLocaleString('en-US')}`,
+        });
+      }
+      continue;
+    }
+
+    const baseline = measured.slice(1).map((window) => window.get(resource) ?? 0);
+    const mean = baseline.reduce((total, item) => total + item, 0) / baseline.length;
+    const stddev = Math.sqrt(baseline.reduce((total, item) => total + (item - mean) ** 2, 0) / baseline.length);
+    // A perfectly flat baseline makes any change infinitely unusual; only real deviations count
+    const score = stddev === 0 ? (value === mean ? 0 : Math.sign(value - mean) * Infinity) : (value - mean) / stddev;
+    const zScore = rule.zScore as number;
+    const anomalous = rule.comparison === 'above' ? score >= zScore : score <= -zScore;
+    if (anomalous) {
+      alerts.push({
+        ...base,
+        zScore: Number.isFinite(score) ? Number(score.toFixed(2)) : undefined,
+        baseline: { mean: Number(mean.toFixed(2)), stddev: Number(stddev.toFixed(2)) },
+        message: `${label} is ${value.toLocaleString('en-US')}, unusually ${rule.comparison === 'above' ? 'high' : 'low'} against an average of ${Math.round(mean).toLocaleString('en-US')} over the previous ${baseline.length} windows`,
+      });
+    }
+  }
+  return alerts;
+};
+
+interface AlertState {
+  firedAt: number;
+  value: number;
+}
+
+const stateStore = () => getStore('alert-state');
+
+const stateKey = (alert: Alert) =>
+  `${alert.ruleId}/${alert.site.id}${alert.resource ? `/${encodeURIComponent(alert.resource)}` : ''}`;
+
+// Drops alerts that already fired within their rule's cooldown. Read-only: firing times are
+// stored by recordFired once a webhook has accepted the alert, so failed deliveries retry
+export const applyCooldown = async (alerts: Alert[], rule: AlertRule): Promise<Alert[]> => {
+  const fresh: Alert[] = [];
+  for (const alert of alerts) {
+    const key = stateKey(alert);
+    const previous = await stateStore().get<AlertState>(key);
+    if (previous && alert.firedAt - previous.firedAt < rule.cooldownHours * HOUR_MS) continue;
+    fresh.push(alert);
+  }
+  return fresh;
+};
+
+export const recordFired = async (alert: Alert): Promise<void> => {
+  await stateStore().set<AlertState>(stateKey(alert), { firedAt: alert.firedAt, value: alert.value });
+};
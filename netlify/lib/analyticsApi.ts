@@ -0,0 +1,110 @@
+import { Endpoint, EndpointResponse, RESPONSE_SCHEMAS } from "../../shared/analytics";
+import { demoResponse } from "./demoData";
+import { recordFixture, replayFixture } from "./fixtures";
+import { fetchUpstreamJson, UpstreamError } from "./upstream";
+
+// Builds Netlify Analytics API requests and smooths over response shape quirks.
+// Shared by the proxy and the scheduled functions.
+//
+// ANALYTICS_PROVIDER decides where responses come from:
+//   - netlify (default) the real API, using NETLIFY_API_KEY
+//   - record  the real API, also saving every response as a fixture file
+//   - replay  previously recorded fixtures, no network access
+//   - demo    deterministic synthetic data, no API key needed
+
+export type AnalyticsProvider = 'netlify' | 'record' | 'replay' | 'demo';
+
+const resolveProvider = (): AnalyticsProvider => {
+  const configured = Netlify.env.get("ANALYTICS_PROVIDER");
+  if (configured === 'netlify' || configured === 'record' || configured === 'replay' || configured === 'demo') return configured;
+  if (configured) console.warn(`Unknown ANALYTICS_PROVIDER '${configured}', using the Netlify API`);
+  return 'netlify';
+};
+
+export const ANALYTICS_PROVIDER = resolveProvider();
+
+// These should be set as secure environment variables in Netlify build settings
+const NETLIFY_API_KEY = Netlify.env.get("NETLIFY_API_KEY");
+
+export const requiresApiKey = (): boolean => ANALYTICS_PROVIDER === 'netlify' || ANALYTICS_PROVIDER === 'record';
+
+const BASE_URL = 'https://analytics.services.netlify.com/v2';
+
+export interface AnalyticsQuery<E extends Endpoint = Endpoint> {
+  siteId: string;
+  endpoint: E;
+  params?: Record<string, string | number | undefined>;
+  from: number;
+  to: number;
+  timezone: string;
+}
+
+export type AnalyticsPayload<E extends Endpoint = Endpoint> = EndpointResponse<E>;
+
+export const buildAnalyticsUrl = ({ siteId, endpoint, params = {}, from, to, timezone }: AnalyticsQuery): string => {
+  const queryParams: Record<string, string | number> = {
+    ...Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as Record<string, string | number>,
+    from,
+    to,
+    timezone,
+  };
+
+  const queryString = Object.entries(queryParams)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return `${BASE_URL}/${siteId}${endpoint}?${queryString}`;
+};
+
+// Raw upstream JSON from whichever provider is configured
+const fetchRaw = async (query: AnalyticsQuery): Promise<unknown> => {
+  if (ANALYTICS_PROVIDER === 'demo') return demoResponse(query);
+  if (ANALYTICS_PROVIDER === 'replay') return replayFixture(query);
+
+  if (!NETLIFY_API_KEY) {
+    throw new Error("Missing NETLIFY_API_KEY environment variable");
+  }
+  const json = await fetchUpstreamJson(buildAnalyticsUrl(query), NETLIFY_API_KEY);
+  if (ANALYTICS_PROVIDER === 'record') await recordFixture(query, json);
+  return json;
+};
+
+// Bandwidth sometimes comes back as a bare record instead of `{ data: [record] }`
+const normalizeBandwidth = (jsonData: {
+  data?: unknown;
+  start?: number;
+  end?: number;
+  siteBandwidth?: number;
+}, label: string): unknown => {
+  if (!jsonData.data || !Array.isArray(jsonData.data)) {
+    console.warn("Proxy: Bandwidth data structure mismatch for", label, ", wrapping:", jsonData);
+    if (jsonData.start && jsonData.end && jsonData.siteBandwidth !== undefined) {
+      return { data: [jsonData] };
+    }
+    // Return empty data if the object is empty or not clearly a single record
+    return { data: [] };
+  } else if (jsonData.data.length === 0) {
+    console.log("Proxy: Received empty data array for bandwidth for", label);
+  }
+  return jsonData;
+};
+
+// Fetches one endpoint and resolves to its validated `{ data: [...] }` payload. Throws
+// UpstreamError on failure, including payloads that don't match the shared contract.
+export const fetchAnalytics = async <E extends Endpoint>(query: AnalyticsQuery<E>, label = ''): Promise<AnalyticsPayload<E>> => {
+  const jsonData = await fetchRaw(query);
+  const payload = query.endpoint === '/bandwidth' && typeof jsonData === 'object' && jsonData !== null
+    ? normalizeBandwidth(jsonData, label)
+    : jsonData;
+
+  const parsed = RESPONSE_SCHEMAS[query.endpoint].safeParse(payload);
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    console.error(`Proxy: Unexpected ${query.endpoint} payload for`, label, details);
+    throw new UpstreamError('UPSTREAM_INVALID_RESPONSE', `Netlify API returned an unexpected ${query.endpoint} payload`, { details });
+  }
+  return parsed.data as AnalyticsPayload<E>;
+};
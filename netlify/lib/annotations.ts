@@ -0,0 +1,47 @@
+import { randomUUID } from "node:crypto";
+import type { Annotation, annotationInputSchema } from "../../shared/analytics";
+import type { z } from "zod";
+import { getStore } from "./storage";
+
+// Chart annotations (campaigns, outages, press mentions, ...) kept per site in the
+// `annotations` store, keyed `<siteId>/<id>`. STORAGE_DRIVER decides where they live.
+
+export type ValidAnnotationInput = z.output<typeof annotationInputSchema>;
+
+const store = () => getStore('annotations');
+
+const keyFor = (siteId: string, id: string) => `${siteId}/${id}`;
+
+const overlaps = (annotation: Annotation, from?: string, to?: string) =>
+  (to === undefined || annotation.date <= to) && (from === undefined || (annotation.endDate ?? annotation.date) >= from);
+
+// Annotations touching the calendar days [from, to] (either end optional), oldest first
+export const listAnnotations = async (siteId: string, from?: string, to?: string): Promise<Annotation[]> => {
+  const keys = await store().list(`${siteId}/`);
+  const annotations = await Promise.all(keys.map((key) => store().get<Annotation>(key)));
+  return annotations
+    .filter((annotation): annotation is Annotation => annotation !== null && overlaps(annotation, from, to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+};
+
+export const createAnnotation = async (siteId: string, input: ValidAnnotationInput): Promise<Annotation> => {
+  const now = Date.now();
+  const annotation: Annotation = { ...input, id: randomUUID(), siteId, createdAt: now, updatedAt: now };
+  await store().set(keyFor(siteId, annotation.id), annotation);
+  return annotation;
+};
+
+// Replaces the editable fields; null when there is no such annotation
+export const updateAnnotation = async (siteId: string, id: string, input: ValidAnnotationInput): Promise<Annotation | null> => {
+  const existing = await store().get<Annotation>(keyFor(siteId, id));
+  if (!existing) return null;
+  const annotation: Annotation = { ...input, id, siteId, createdAt: existing.createdAt, updatedAt: Date.now() };
+  await store().set(keyFor(siteId, id), annotation);
+  return annotation;
+};
+
+export const deleteAnnotation = async (siteId: string, id: string): Promise<boolean> => {
+  if (!(await store().get<Annotation>(keyFor(siteId, id)))) return false;
+  await store().delete(keyFor(siteId, id));
+  return true;
+};
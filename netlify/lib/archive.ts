@@ -0,0 +1,123 @@
+import {
+  BandwidthRecord,
+  BandwidthResponse,
+  Endpoint,
+  EndpointResponse,
+  RankingName,
+  RANKINGS,
+  RankingResponse,
+  RankingRow,
+  TimeSeriesResponse,
+  TimeSeriesRow,
+} from "../../shared/analytics";
+import { addCivilDays, civilDayRange, toCivilDate } from "./timeRange";
+import { getStore } from "./storage";
+
+// Long-term archive of closed days, so history survives the upstream retention window.
+// One entry per site and calendar day (in ARCHIVE_TIMEZONE), keyed `<siteId>/<YYYY-MM-DD>`.
+// Written by the archive-snapshot scheduled function and the CSV backfill importer.
+
+export const ARCHIVE_TIMEZONE = Netlify.env.get("ARCHIVE_TIMEZONE") || 'UTC';
+
+export { RANKINGS };
+export type { RankingName };
+
+export interface ArchivedDay {
+  siteId: string;
+  date: string;
+  timezone: string;
+  capturedAt: number;
+  source: 'snapshot' | 'import';
+  // null when the metric wasn't available for that day (e.g. missing from an import)
+  pageviews: number | null;
+  visitors: number | null;
+  bandwidth: number | null;
+  rankings: Partial<Record<RankingName, RankingRow[]>>;
+}
+
+const store = () => getStore('analytics-archive');
+
+const keyFor = (siteId: string, date: string) => `${siteId}/${date}`;
+
+export const readArchivedDay = (siteId: string, date: string): Promise<ArchivedDay | null> =>
+  store().get<ArchivedDay>(keyFor(siteId, date));
+
+export const writeArchivedDay = (day: ArchivedDay): Promise<void> =>
+  store().set(keyFor(day.siteId, day.date), day);
+
+// Archived days overlapping [from, to], oldest first. Days never captured are simply absent.
+export const readArchivedDays = async (siteId: string, from: number, to: number): Promise<ArchivedDay[]> => {
+  const first = toCivilDate(from, ARCHIVE_TIMEZONE);
+  const last = toCivilDate(to, ARCHIVE_TIMEZONE);
+  const keys = (await store().list(`${siteId}/`)).filter((key) => {
+    const date = key.slice(siteId.length + 1);
+    return date >= first && date <= last;
+  });
+  const days = await Promise.all(keys.map((key) => store().get<ArchivedDay>(key)));
+  return days.filter((day): day is ArchivedDay => day !== null);
+};
+
+// Start of the first day that upstream still holds completely; earlier days come from the archive
+export const archiveCutoff = (retentionStart: number): number =>
+  civilDayRange(addCivilDays(toCivilDate(retentionStart, ARCHIVE_TIMEZONE), 1), ARCHIVE_TIMEZONE).from;
+
+const rankingNameFor = (endpoint: Endpoint): RankingName | undefined =>
+  (Object.keys(RANKINGS) as RankingName[]).find((name) => RANKINGS[name] === endpoint);
+
+// Sums ranking rows by resource, largest first
+export const mergeRankings = (lists: RankingRow[][], limit?: number): RankingRow[] => {
+  const merged = new Map<string, RankingRow>();
+  for (const rows of lists) {
+    for (const row of rows) {
+      const existing = merged.get(row.resource);
+      if (existing) {
+        existing.count += row.count;
+      } else {
+        merged.set(row.resource, { ...row });
+      }
+    }
+  }
+  const sorted = [...merged.values()].sort((a, b) => b.count - a.count || a.resource.localeCompare(b.resource));
+  return limit === undefined ? sorted : sorted.slice(0, limit);
+};
+
+// Folds archived days into a live `{ data: [...] }` payload for the same endpoint
+export const mergeWithArchive = <E extends Endpoint>(
+  endpoint: E,
+  live: EndpointResponse<E>,
+  days: ArchivedDay[],
+  range: { from: number; to: number },
+  limit?: number,
+): EndpointResponse<E> => {
+  if (days.length === 0) return live;
+
+  if (endpoint === '/pageviews' || endpoint === '/visitors') {
+    const metric = endpoint === '/pageviews' ? 'pageviews' : 'visitors';
+    // One [timestamp, value] point per archived day, at local midnight of the archive timezone
+    const archived = days
+      .filter((day) => day[metric] !== null)
+      .map((day): TimeSeriesRow => [civilDayRange(day.date, day.timezone).from, day[metric] as number]);
+    const merged: TimeSeriesResponse = { data: [...archived, ...(live as TimeSeriesResponse).data] };
+    return merged as EndpointResponse<E>;
+  }
+
+  if (endpoint === '/bandwidth') {
+    const archivedBytes = days.reduce((total, day) => total + (day.bandwidth ?? 0), 0);
+    const liveRecord = (live as BandwidthResponse).data[0] as BandwidthRecord | undefined;
+    const merged: BandwidthResponse = {
+      data: [{
+        ...liveRecord,
+        start: range.from,
+        end: range.to,
+        siteBandwidth: archivedBytes + (liveRecord?.siteBandwidth ?? 0),
+      }],
+    };
+    return merged as EndpointResponse<E>;
+  }
+
+  const name = rankingNameFor(endpoint);
+  if (!name) return live;
+  const archived = days.map((day) => day.rankings[name] ?? []);
+  const merged: RankingResponse = { data: mergeRankings([...archived, (live as RankingResponse).data], limit) };
+  return merged as EndpointResponse<E>;
+};
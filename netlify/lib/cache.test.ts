@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { buildCacheKey, CacheKeyParts, ttlFor } from "./cache";
+import { civilDayRange } from "./timeRange";
+
+const MINUTE = 60;
+const DAY = 24 * 60 * MINUTE;
+
+const parts: CacheKeyParts = {
+  siteId: "site-1",
+  endpoint: "/ranking/pages",
+  params: { limit: 10, granularity: undefined },
+  range: "7d",
+  timezone: "Europe/Berlin",
+  weekStartsOn: 1,
+};
+
+describe("buildCacheKey", () => {
+  it("groups entries by site", () => {
+    expect(buildCacheKey(parts)).toMatch(/^site-1\/[0-9a-f]{64}$/);
+  });
+
+  it("ignores the order params were sent in", () => {
+    const reordered = { ...parts, params: { granularity: undefined, limit: 10 } };
+    expect(buildCacheKey(reordered)).toBe(buildCacheKey(parts));
+  });
+
+  it("changes with anything that changes the response", () => {
+    const key = buildCacheKey(parts);
+    expect(buildCacheKey({ ...parts, range: "30d" })).not.toBe(key);
+    expect(buildCacheKey({ ...parts, range: { from: 0, to: 1 } })).not.toBe(key);
+    expect(buildCacheKey({ ...parts, timezone: "UTC" })).not.toBe(key);
+    expect(buildCacheKey({ ...parts, weekStartsOn: 0 })).not.toBe(key);
+    expect(buildCacheKey({ ...parts, params: { limit: 20 } })).not.toBe(key);
+  });
+});
+
+describe("ttlFor", () => {
+  const today = civilDayRange("2026-10-19", "UTC");
+  const morning = Date.parse("2026-10-19T09:00:00Z");
+
+  it("keeps closed timestamp ranges for a week", () => {
+    expect(ttlFor("/pageviews", today.from - 1, today, morning, false)).toBe(7 * DAY);
+  });
+
+  it("refreshes ranges that include today after a few minutes", () => {
+    expect(ttlFor("/pageviews", morning, today, morning, false)).toBe(5 * MINUTE);
+    expect(ttlFor("/bandwidth", morning, today, morning, true)).toBe(30 * MINUTE);
+  });
+
+  it("expires expression keys at local midnight", () => {
+    // `yesterday` is closed, but after midnight the same key means a different day
+    expect(ttlFor("/pageviews", today.from - 1, today, morning, true)).toBe(15 * 60 * MINUTE);
+    const lateEvening = Date.parse("2026-10-19T23:58:00Z");
+    expect(ttlFor("/pageviews", lateEvening, today, lateEvening, true)).toBe(2 * MINUTE);
+  });
+
+  it("never returns a zero TTL", () => {
+    expect(ttlFor("/pageviews", today.to, today, today.to, true)).toBe(1);
+  });
+});
@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import type { Endpoint } from "./endpoints";
+import { getStore } from "./storage";
+import type { ResolvedRange } from "./timeRange";
+
+// Response cache for the proxy. Entries are keyed on what the client asked for (the range
+// expression, not the resolved timestamps) so rolling ranges can hit between requests. Such
+// keys point at a different window once the local day is over, so they expire by midnight.
+
+interface CacheEntry {
+  body: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheKeyParts {
+  siteId: string;
+  endpoint: Endpoint;
+  params: Record<string, unknown>;
+  range: string | { from: number; to: number };
+  timezone: string;
+  weekStartsOn: number;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// `live` applies while the range still includes today, `closed` once it lies entirely in the past
+const TTL_SECONDS: Record<Endpoint, { live: number; closed: number }> = {
+  '/pageviews': { live: 5 * MINUTE, closed: 7 * DAY },
+  '/visitors': { live: 5 * MINUTE, closed: 7 * DAY },
+  '/bandwidth': { live: 30 * MINUTE, closed: 7 * DAY },
+  '/ranking/pages': { live: 10 * MINUTE, closed: 7 * DAY },
+  '/ranking/sources': { live: 10 * MINUTE, closed: 7 * DAY },
+  '/ranking/countries': { live: 10 * MINUTE, closed: 7 * DAY },
+  '/ranking/not_found': { live: 10 * MINUTE, closed: 7 * DAY },
+};
+
+const CACHE_ENABLED = Netlify.env.get("PROXY_CACHE") !== 'off';
+
+const store = () => getStore('proxy-cache');
+
+export const buildCacheKey = (parts: CacheKeyParts): string => {
+  // Sort params so { a, b } and { b, a } share an entry
+  const params = Object.fromEntries(Object.entries(parts.params).sort(([a], [b]) => a.localeCompare(b)));
+  const digest = createHash('sha256')
+    .update(JSON.stringify([parts.siteId, parts.endpoint, params, parts.range, parts.timezone, parts.weekStartsOn]))
+    .digest('hex');
+  return `${parts.siteId}/${digest}`;
+};
+
+// `today` is the request's local calendar day. With `expressionKey` (the key holds `yesterday`,
+// `prev-month`, `7d`, ... rather than timestamps) the entry never outlives that day: after
+// midnight the same key means a later window.
+export const ttlFor = (endpoint: Endpoint, rangeEnd: number, today: ResolvedRange, now: number, expressionKey: boolean): number => {
+  const ttl = rangeEnd < today.from ? TTL_SECONDS[endpoint].closed : TTL_SECONDS[endpoint].live;
+  if (!expressionKey) return ttl;
+  return Math.max(1, Math.min(ttl, Math.ceil((today.to + 1 - now) / 1000)));
+};
+
+export const readCache = async (key: string): Promise<string | null> => {
+  if (!CACHE_ENABLED) return null;
+  try {
+    const entry = await store().get<CacheEntry>(key);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.body;
+  } catch (error) {
+    // A broken cache must never take the dashboard down with it
+    console.error("Proxy cache read failed:", error);
+    return null;
+  }
+};
+
+export const writeCache = async (key: string, body: string, ttlSeconds: number): Promise<void> => {
+  if (!CACHE_ENABLED) return;
+  const now = Date.now();
+  try {
+    await store().set<CacheEntry>(key, { body, storedAt: now, expiresAt: now + ttlSeconds * 1000 });
+  } catch (error) {
+    console.error("Proxy cache write failed:", error);
+  }
+};
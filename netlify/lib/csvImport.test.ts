@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvDate } from "./csvImport";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("date,pageviews\n2026-10-01,120\n2026-10-02,98\n")).toEqual([
+      ["date", "pageviews"],
+      ["2026-10-01", "120"],
+      ["2026-10-02", "98"],
+    ]);
+  });
+
+  it("keeps commas, doubled quotes and line breaks inside quoted fields", () => {
+    expect(parseCsv('path,count\n"/search?q=a,b",3\n"/say ""hi""",2\n"/multi\nline",1')).toEqual([
+      ["path", "count"],
+      ["/search?q=a,b", "3"],
+      ['/say "hi"', "2"],
+      ["/multi\nline", "1"],
+    ]);
+  });
+
+  it("handles CRLF endings, a BOM and blank lines", () => {
+    expect(parseCsv("\uFEFFsource,count\r\n\r\ngoogle.com,10\r\n,\r\n")).toEqual([
+      ["source", "count"],
+      ["google.com", "10"],
+    ]);
+  });
+
+  it("keeps empty fields in place", () => {
+    expect(parseCsv("a,,c\n,b,")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+});
+
+describe("parseCsvDate", () => {
+  it("reads ISO and US dates", () => {
+    expect(parseCsvDate("2026-10-01")).toBe("2026-10-01");
+    expect(parseCsvDate("2026-10-01T13:00:00Z")).toBe("2026-10-01");
+    expect(parseCsvDate("10/1/2026")).toBe("2026-10-01");
+  });
+
+  it("reads epoch seconds and milliseconds", () => {
+    const instant = Date.parse("2026-10-01T12:00:00Z");
+    expect(parseCsvDate(String(instant / 1000))).toBe("2026-10-01");
+    expect(parseCsvDate(String(instant))).toBe("2026-10-01");
+  });
+
+  it("rejects impossible and unknown dates", () => {
+    expect(parseCsvDate("2026-02-30")).toBeNull();
+    expect(parseCsvDate("13/01/2026")).toBeNull();
+    expect(parseCsvDate("yesterday")).toBeNull();
+  });
+});
@@ -0,0 +1,368 @@
+import {
+  ARCHIVE_TIMEZONE,
+  ArchivedDay,
+  RankingName,
+  readArchivedDay,
+  writeArchivedDay,
+} from "./archive";
+import type { RankingRow } from "../../shared/analytics";
+import { toCivilDate } from "./timeRange";
+
+// Backfills the archive from CSVs downloaded from the Netlify Analytics UI.
+// Each file is one of: a daily timeseries (date + pageviews or visitors) or a ranking
+// (pages, sources, countries, 404s), either with a date column or attributed to a single
+// day given alongside the file. Rows are validated and deduplicated by day before being
+// folded into the archive; days captured by the snapshot function only get gaps filled.
+
+export const IMPORT_KINDS = ['pageviews', 'visitors', 'pages', 'sources', 'countries', 'not_found'] as const satisfies readonly ('pageviews' | 'visitors' | RankingName)[];
+
+export type ImportKind = typeof IMPORT_KINDS[number];
+
+export interface ImportFile {
+  name: string;
+  content: string;
+  // Detected from the header row (and file name, for 404s) when omitted
+  kind?: ImportKind;
+  // Day to attribute rows to when the file has no date column
+  date?: string;
+}
+
+export interface ImportIssue {
+  file: string;
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportDayReport {
+  date: string;
+  action: 'create' | 'update' | 'unchanged';
+  // Fields written by this import, and fields left alone because a snapshot already has them
+  fields: string[];
+  kept: string[];
+}
+
+export interface ImportReport {
+  siteId: string;
+  dryRun: boolean;
+  files: { name: string; kind: ImportKind | null; rows: number; days: number }[];
+  days: ImportDayReport[];
+  issues: ImportIssue[];
+  totals: { created: number; updated: number; unchanged: number; rejectedRows: number; duplicateRows: number };
+}
+
+const DATE_HEADERS = ['date', 'day', 'timestamp', 'time'];
+const PAGEVIEW_HEADERS = ['pageviews', 'page views', 'views'];
+const VISITOR_HEADERS = ['visitors', 'unique visitors', 'uniques'];
+const COUNT_HEADERS = ['count', 'pageviews', 'page views', 'views', 'hits', 'visitors', 'requests', 'total'];
+const COUNTRY_CODE_HEADERS = ['country code', 'country_code', 'code'];
+const COUNTRY_NAME_HEADERS = ['country', 'country name', 'country_name'];
+const SOURCE_HEADERS = ['source', 'sources', 'referrer', 'referrers', 'referer'];
+const PATH_HEADERS = ['path', 'page', 'pages', 'url', 'resource'];
+
+const NOT_FOUND_FILE_PATTERN = /404|not[-_ ]?found/i;
+
+// RFC 4180-ish: quoted fields, doubled quotes, CRLF or LF line endings, optional BOM
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+// Accepts YYYY-MM-DD (optionally followed by a time), M/D/YYYY and epoch seconds or milliseconds
+export const parseCsvDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let date: string | null = null;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(trimmed);
+  if (iso) {
+    date = `${iso[1]}-${iso[2]}-${iso[3]}`;
+  } else if (us) {
+    date = `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  } else if (/^\d{9,13}$/.test(trimmed)) {
+    const epoch = Number(trimmed);
+    return toCivilDate(epoch < 1e11 ? epoch * 1000 : epoch, ARCHIVE_TIMEZONE);
+  }
+
+  // Reject impossible dates such as 2024-02-30 or 2024-13-01 (an invalid Date has no ISO string)
+  const parsed = date ? new Date(`${date}T00:00:00Z`) : null;
+  if (!parsed || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) return null;
+  return date;
+};
+
+const parseCount = (value: string): number | null => {
+  const count = Number(value.trim().replace(/,/g, ''));
+  return Number.isInteger(count) && count >= 0 ? count : null;
+};
+
+const findColumn = (headers: string[], candidates: string[]): number =>
+  headers.findIndex((header) => candidates.includes(header));
+
+interface Columns {
+  kind: ImportKind;
+  date: number;
+  value: number;
+  resource: number;
+  countryName: number;
+}
+
+const detectColumns = (headers: string[], file: ImportFile): Columns | string => {
+  const date = findColumn(headers, DATE_HEADERS);
+
+  const resourceKinds: [RankingName, number][] = [
+    ['countries', findColumn(headers, COUNTRY_CODE_HEADERS)],
+    ['countries', findColumn(headers, COUNTRY_NAME_HEADERS)],
+    ['sources', findColumn(headers, SOURCE_HEADERS)],
+    [NOT_FOUND_FILE_PATTERN.test(file.name) ? 'not_found' : 'pages', findColumn(headers, PATH_HEADERS)],
+  ];
+  const detected = resourceKinds.find(([, column]) => column !== -1);
+
+  let kind = file.kind;
+  if (!kind) {
+    if (detected) {
+      kind = detected[0];
+    } else if (findColumn(headers, VISITOR_HEADERS) !== -1) {
+      kind = 'visitors';
+    } else if (findColumn(headers, PAGEVIEW_HEADERS) !== -1) {
+      kind = 'pageviews';
+    } else {
+      return `could not tell what this file contains from its header (${headers.join(', ')})`;
+    }
+  }
+
+  if (kind === 'pageviews' || kind === 'visitors') {
+    const value = findColumn(headers, kind === 'pageviews' ? PAGEVIEW_HEADERS : VISITOR_HEADERS);
+    const fallback = value === -1 ? findColumn(headers, COUNT_HEADERS) : value;
+    if (date === -1) return `${kind} exports need a date column`;
+    if (fallback === -1) return `no ${kind} column found`;
+    return { kind, date, value: fallback, resource: -1, countryName: -1 };
+  }
+
+  const resource = kind === 'countries'
+    ? [findColumn(headers, COUNTRY_CODE_HEADERS), findColumn(headers, COUNTRY_NAME_HEADERS)].find((column) => column !== -1) ?? -1
+    : findColumn(headers, kind === 'sources' ? SOURCE_HEADERS : PATH_HEADERS);
+  const value = findColumn(headers, COUNT_HEADERS);
+  if (resource === -1) return `no resource column found for ${kind}`;
+  if (value === -1) return `no count column found for ${kind}`;
+  if (date === -1 && !file.date) return `${kind} export has no date column; pass the day it covers`;
+  return { kind, date, value, resource, countryName: kind === 'countries' ? findColumn(headers, COUNTRY_NAME_HEADERS) : -1 };
+};
+
+// Everything an import contributes to a single day
+interface ImportedDay {
+  pageviews?: number;
+  visitors?: number;
+  rankings: Partial<Record<RankingName, Map<string, RankingRow>>>;
+}
+
+interface ParseState {
+  days: Map<string, ImportedDay>;
+  issues: ImportIssue[];
+  rejectedRows: number;
+  duplicateRows: number;
+  today: string;
+}
+
+const dayFor = (state: ParseState, date: string): ImportedDay => {
+  let day = state.days.get(date);
+  if (!day) {
+    day = { rankings: {} };
+    state.days.set(date, day);
+  }
+  return day;
+};
+
+const parseFile = (file: ImportFile, state: ParseState): ImportReport['files'][number] => {
+  const summary = { name: file.name, kind: null as ImportKind | null, rows: 0, days: 0 };
+  const reject = (line: number, message: string) => {
+    state.issues.push({ file: file.name, line, severity: 'error', message });
+    state.rejectedRows += 1;
+  };
+  const warn = (line: number, message: string) => {
+    state.issues.push({ file: file.name, line, severity: 'warning', message });
+  };
+
+  const [header, ...rows] = parseCsv(file.content);
+  if (!header) {
+    state.issues.push({ file: file.name, line: 0, severity: 'error', message: 'file is empty' });
+    return summary;
+  }
+
+  const fixedDate = file.date !== undefined ? parseCsvDate(file.date) : null;
+  if (file.date !== undefined && !fixedDate) {
+    state.issues.push({ file: file.name, line: 0, severity: 'error', message: `invalid date '${file.date}'` });
+    return summary;
+  }
+
+  const columns = detectColumns(header.map((cell) => cell.trim().toLowerCase()), file);
+  if (typeof columns === 'string') {
+    state.issues.push({ file: file.name, line: 1, severity: 'error', message: columns });
+    return summary;
+  }
+  summary.kind = columns.kind;
+
+  const seenDays = new Set<string>();
+  rows.forEach((cells, index) => {
+    // +2: one for the header row, one because lines are 1-based
+    const line = index + 2;
+    const date = columns.date !== -1 ? parseCsvDate(cells[columns.date] ?? '') : fixedDate;
+    if (!date) return reject(line, `invalid date '${cells[columns.date] ?? ''}'`);
+    if (date >= state.today) return reject(line, `${date} is not a closed day yet`);
+
+    const count = parseCount(cells[columns.value] ?? '');
+    if (count === null) return reject(line, `invalid count '${cells[columns.value] ?? ''}'`);
+
+    const day = dayFor(state, date);
+    summary.rows += 1;
+    seenDays.add(date);
+
+    if (columns.kind === 'pageviews' || columns.kind === 'visitors') {
+      const existing = day[columns.kind];
+      if (existing === undefined) {
+        day[columns.kind] = count;
+      } else if (existing === count) {
+        state.duplicateRows += 1;
+      } else {
+        warn(line, `conflicting ${columns.kind} for ${date} (${existing} vs ${count}); keeping ${existing}`);
+      }
+      return;
+    }
+
+    const resource = (cells[columns.resource] ?? '').trim();
+    if (!resource) return reject(line, 'empty resource');
+
+    const ranking = day.rankings[columns.kind] ?? new Map<string, RankingRow>();
+    day.rankings[columns.kind] = ranking;
+    const existing = ranking.get(resource);
+    if (!existing) {
+      const row: RankingRow = { resource, count };
+      if (columns.kind === 'countries') {
+        row.country_name = columns.countryName !== -1 ? (cells[columns.countryName] ?? '').trim() || resource : resource;
+      }
+      ranking.set(resource, row);
+    } else if (existing.count === count) {
+      state.duplicateRows += 1;
+    } else {
+      warn(line, `conflicting count for ${resource} on ${date} (${existing.count} vs ${count}); keeping ${existing.count}`);
+    }
+  });
+
+  summary.days = seenDays.size;
+  return summary;
+};
+
+// Applies one day's imported data on top of whatever is archived already
+const mergeDay = (siteId: string, date: string, imported: ImportedDay, existing: ArchivedDay | null) => {
+  const next: ArchivedDay = existing
+    ? { ...existing, rankings: { ...existing.rankings } }
+    : {
+      siteId,
+      date,
+      timezone: ARCHIVE_TIMEZONE,
+      capturedAt: Date.now(),
+      source: 'import',
+      pageviews: null,
+      visitors: null,
+      bandwidth: null,
+      rankings: {},
+    };
+  // Snapshots come straight from the API, so imports may only fill their gaps
+  const protectedDay = existing?.source === 'snapshot';
+  const fields: string[] = [];
+  const kept: string[] = [];
+
+  for (const metric of ['pageviews', 'visitors'] as const) {
+    const value = imported[metric];
+    if (value === undefined) continue;
+    if (protectedDay && next[metric] !== null) {
+      kept.push(metric);
+    } else if (next[metric] !== value) {
+      next[metric] = value;
+      fields.push(metric);
+    }
+  }
+
+  for (const name of Object.keys(imported.rankings) as RankingName[]) {
+    const rows = [...(imported.rankings[name]?.values() ?? [])].sort((a, b) => b.count - a.count);
+    if (protectedDay && next.rankings[name]) {
+      kept.push(name);
+    } else if (JSON.stringify(next.rankings[name]) !== JSON.stringify(rows)) {
+      next.rankings[name] = rows;
+      fields.push(name);
+    }
+  }
+
+  const action: ImportDayReport['action'] = !existing ? 'create' : fields.length > 0 ? 'update' : 'unchanged';
+  return { next, report: { date, action, fields, kept } };
+};
+
+export const runImport = async (siteId: string, files: ImportFile[], { dryRun }: { dryRun: boolean }): Promise<ImportReport> => {
+  const state: ParseState = {
+    days: new Map(),
+    issues: [],
+    rejectedRows: 0,
+    duplicateRows: 0,
+    today: toCivilDate(Date.now(), ARCHIVE_TIMEZONE),
+  };
+
+  const fileReports = files.map((file) => parseFile(file, state));
+
+  const days: ImportDayReport[] = [];
+  for (const date of [...state.days.keys()].sort()) {
+    const { next, report } = mergeDay(siteId, date, state.days.get(date) as ImportedDay, await readArchivedDay(siteId, date));
+    days.push(report);
+    if (!dryRun && report.action !== 'unchanged') {
+      await writeArchivedDay(next);
+    }
+  }
+
+  return {
+    siteId,
+    dryRun,
+    files: fileReports,
+    days,
+    issues: state.issues,
+    totals: {
+      created: days.filter((day) => day.action === 'create').length,
+      updated: days.filter((day) => day.action === 'update').length,
+      unchanged: days.filter((day) => day.action === 'unchanged').length,
+      rejectedRows: state.rejectedRows,
+      duplicateRows: state.duplicateRows,
+    },
+  };
+};
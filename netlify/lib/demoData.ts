@@ -0,0 +1,181 @@
+import type { AnalyticsQuery } from "./analyticsApi";
+import { addCivilDays, civilDayRange, toCivilDate } from "./timeRange";
+
+// Synthetic Netlify Analytics responses for local development and demos. Every number is
+// derived from a hash of the site id and calendar day, so the same request always gets the
+// same answer and overlapping ranges agree with each other. Shapes match the upstream API.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when a ranking request doesn't ask for a limit
+const DEFAULT_LIMIT = 10;
+
+// Sunday first; weekends are quiet, the working week peaks early on
+const WEEKDAY_FACTORS = [0.62, 1.05, 1.12, 1.1, 1.04, 0.93, 0.58];
+
+const PAGES = [
+  '/', '/pricing', '/docs', '/blog', '/docs/getting-started', '/about', '/blog/launch-week',
+  '/changelog', '/docs/api', '/contact', '/blog/why-we-built-this', '/integrations',
+  '/docs/deploys', '/careers', '/security', '/blog/2024-review', '/docs/limits', '/customers',
+  '/docs/functions', '/legal/privacy', '/about/', '/Pricing', '/docs/index.html', '/blog?page=2',
+];
+
+const SOURCES = [
+  'google.com', '(direct)', 'github.com', 'news.ycombinator.com', 't.co', 'linkedin.com', 'reddit.com',
+  'duckduckgo.com', 'bing.com', 'dev.to', 'chatgpt.com', 'facebook.com', 'producthunt.com',
+  'stackoverflow.com', 'mail.google.com', 'perplexity.ai', 'www.google.com', 'x.com',
+  'l.facebook.com', 'google.co.uk', 'demo.example.com',
+];
+
+const COUNTRIES: [string, string][] = [
+  ['US', 'United States'], ['GB', 'United Kingdom'], ['DE', 'Germany'], ['IN', 'India'],
+  ['FR', 'France'], ['CA', 'Canada'], ['NL', 'Netherlands'], ['BR', 'Brazil'],
+  ['AU', 'Australia'], ['JP', 'Japan'], ['ES', 'Spain'], ['SE', 'Sweden'],
+  ['PL', 'Poland'], ['IT', 'Italy'], ['SG', 'Singapore'],
+];
+
+const NOT_FOUND_PATHS = [
+  '/wp-login.php', '/old-pricing', '/blog/draft-post', '/favicon.png', '/docs/v1/api',
+  '/.env', '/apple-touch-icon.png', '/feed.xml', '/careers/engineer', '/admin', '/old-pricing/', '/Admin',
+];
+
+// Share of page views that arrive with a referrer, and that hit a missing page
+const REFERRED_SHARE = 0.45;
+const NOT_FOUND_SHARE = 0.02;
+
+// FNV-1a, good enough to spread seeds
+const hash = (...parts: (string | number)[]): number => {
+  let value = 0x811c9dc5;
+  for (const char of parts.join('|')) {
+    value ^= char.charCodeAt(0);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+// Deterministic value in [0, 1) for the given parts
+const random = (...parts: (string | number)[]): number => {
+  // One round of mulberry32 over the hashed seed
+  let t = (hash(...parts) + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const dailyPageviews = (siteId: string, date: string): number => {
+  const base = 200 + random(siteId, 'base') * 1800;
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const dayNumber = Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+  const trend = 1 + 0.15 * Math.sin(dayNumber / 45 + random(siteId, 'phase') * Math.PI * 2);
+  const noise = 0.85 + random(siteId, date, 'pageviews') * 0.3;
+  return base * WEEKDAY_FACTORS[weekday] * trend * noise;
+};
+
+const dailyVisitors = (siteId: string, date: string): number =>
+  dailyPageviews(siteId, date) * (0.33 + random(siteId, date, 'visitors') * 0.12);
+
+// Days touched by the range, each with the fraction of it that falls inside
+const daysIn = ({ from, to, timezone }: Pick<AnalyticsQuery, 'from' | 'to' | 'timezone'>) => {
+  const days: { date: string; start: number; fraction: number }[] = [];
+  const last = toCivilDate(to, timezone);
+  for (let date = toCivilDate(from, timezone); date <= last; date = addCivilDays(date, 1)) {
+    const day = civilDayRange(date, timezone);
+    const overlap = Math.min(day.to, to) - Math.max(day.from, from);
+    days.push({ date, start: day.from, fraction: Math.max(0, overlap) / (day.to + 1 - day.from) });
+  }
+  return days;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Share of a day's traffic in each local hour: quiet overnight, busiest mid-afternoon. Averages to 1.
+const hourFactor = (hour: number) => 1 + 0.8 * Math.sin(((hour - 9) / 24) * Math.PI * 2);
+
+// Hours touched by the range, for `resolution=hour` requests
+const hoursIn = (query: AnalyticsQuery) =>
+  daysIn(query).flatMap((day) => Array.from({ length: 24 }, (_, hour) => {
+    const start = day.start + hour * HOUR_MS;
+    const overlap = Math.min(start + HOUR_MS - 1, query.to) - Math.max(start, query.from);
+    return { date: day.date, hour, start, fraction: Math.max(0, overlap) / HOUR_MS };
+  })).filter((hour) => hour.fraction > 0);
+
+const totalPageviews = (query: AnalyticsQuery): number =>
+  daysIn(query).reduce((total, day) => total + dailyPageviews(query.siteId, day.date) * day.fraction, 0);
+
+// Spreads `total` over `items` with a Zipf-like falloff and a little per-range jitter
+const rank = <T>(query: AnalyticsQuery, items: T[], key: (item: T) => string, total: number) => {
+  const rangeSeed = `${toCivilDate(query.from, query.timezone)}..${toCivilDate(query.to, query.timezone)}`;
+  const weights = items.map((item, index) =>
+    (1 / (index + 1) ** 1.1) * (0.8 + random(query.siteId, query.endpoint, key(item), rangeSeed) * 0.4));
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const limit = Number(query.params?.limit) || DEFAULT_LIMIT;
+  return items
+    .map((item, index) => ({ item, count: Math.round((total * weights[index]) / weightSum) }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+// Raw upstream JSON for the query, before the bandwidth normalisation in fetchAnalytics
+export const demoResponse = (query: AnalyticsQuery): unknown => {
+  switch (query.endpoint) {
+    case '/pageviews':
+    case '/visitors': {
+      const daily = query.endpoint === '/pageviews' ? dailyPageviews : dailyVisitors;
+      if (query.params?.resolution === 'hour') {
+        return {
+          data: hoursIn(query).map((hour) => [
+            hour.start,
+            Math.round((daily(query.siteId, hour.date) / 24) * hourFactor(hour.hour) * hour.fraction),
+          ]),
+        };
+      }
+      return {
+        data: daysIn(query).map((day) => [day.start, Math.round(daily(query.siteId, day.date) * day.fraction)]),
+      };
+    }
+    case '/bandwidth': {
+      const bytesPerView = 150_000 + random(query.siteId, 'bytes') * 400_000;
+      const siteBandwidth = Math.round(totalPageviews(query) * bytesPerView);
+      return { start: query.from, end: query.to, siteBandwidth, accountBandwidth: Math.round(siteBandwidth * 2.3) };
+    }
+    case '/ranking/pages':
+      return { data: rank(query, PAGES, (page) => page, totalPageviews(query)).map(({ item, count }) => ({ resource: item, count })) };
+    case '/ranking/sources':
+      return { data: rank(query, SOURCES, (source) => source, totalPageviews(query) * REFERRED_SHARE).map(({ item, count }) => ({ resource: item, count })) };
+    case '/ranking/countries':
+      return {
+        data: rank(query, COUNTRIES, ([code]) => code, totalPageviews(query))
+          .map(({ item: [code, name], count }) => ({ resource: code, country_name: name, count })),
+      };
+    case '/ranking/not_found':
+      return { data: rank(query, NOT_FOUND_PATHS, (path) => path, totalPageviews(query) * NOT_FOUND_SHARE).map(({ item, count }) => ({ resource: item, count })) };
+  }
+};
+
+const COMMIT_MESSAGES = [
+  'Fix broken links in the docs sidebar', 'Add pricing page FAQ', 'Publish launch week recap',
+  'Update dependencies', 'Speed up image loading on the blog', 'Redirect old pricing URLs',
+  'New customer stories', 'Tweak navigation on mobile', 'Add changelog entry', 'Refresh homepage hero',
+];
+
+// Raw Netlify API deploy list (newest first), one production deploy on roughly a third of the days
+export const demoDeploys = (siteId: string, from: number, to: number, timezone: string): unknown[] =>
+  daysIn({ from, to, timezone })
+    .filter((day) => random(siteId, day.date, 'deploy') < 0.35)
+    .map((day) => {
+      const publishedAt = day.start + Math.round((9 + random(siteId, day.date, 'deploy-hour') * 9) * HOUR_MS);
+      const ref = hash(siteId, day.date, 'commit').toString(16).padStart(8, '0');
+      return {
+        id: `demo-${ref}`,
+        state: 'ready',
+        created_at: new Date(publishedAt - 2 * 60 * 1000).toISOString(),
+        published_at: new Date(publishedAt).toISOString(),
+        branch: 'main',
+        title: COMMIT_MESSAGES[Math.floor(random(siteId, day.date, 'message') * COMMIT_MESSAGES.length)],
+        commit_ref: `${ref}${ref}${ref}${ref}${ref}`,
+        commit_url: null,
+      };
+    })
+    .filter((deploy) => Date.parse(deploy.published_at) >= from && Date.parse(deploy.published_at) <= to)
+    .reverse();
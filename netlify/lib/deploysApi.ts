@@ -0,0 +1,87 @@
+import { z } from "zod";
+import type { Deploy } from "../../shared/analytics";
+import { ANALYTICS_PROVIDER } from "./analyticsApi";
+import { demoDeploys } from "./demoData";
+import { fetchUpstreamJson, UpstreamError } from "./upstream";
+
+// Published production deploys of a configured site, for the deploy markers on the charts.
+// This is the only Netlify API route the deploys function reaches: the URL is fixed here and
+// the site id always comes from the configured sites, never straight from the request.
+// ANALYTICS_PROVIDER=demo makes deploys up; replay has no recordings for them and returns none.
+
+const NETLIFY_API_KEY = Netlify.env.get("NETLIFY_API_KEY");
+
+const BASE_URL = 'https://api.netlify.com/api/v1';
+
+const PAGE_SIZE = 100;
+// The list is newest first; ranges reaching further back than this many pages lose their oldest markers
+const MAX_PAGES = 5;
+
+const upstreamDeploySchema = z.object({
+  id: z.string(),
+  created_at: z.string(),
+  published_at: z.string().nullable().optional(),
+  branch: z.string().nullable().optional(),
+  title: z.string().nullable().optional(),
+  commit_ref: z.string().nullable().optional(),
+  commit_url: z.string().nullable().optional(),
+});
+
+const upstreamDeploysSchema = z.array(upstreamDeploySchema);
+
+type UpstreamDeploy = z.infer<typeof upstreamDeploySchema>;
+
+export const buildDeploysUrl = (siteId: string, page: number): string =>
+  `${BASE_URL}/sites/${encodeURIComponent(siteId)}/deploys?production=true&state=ready&page=${page}&per_page=${PAGE_SIZE}`;
+
+const fetchPage = async (siteId: string, page: number): Promise<unknown> => {
+  if (!NETLIFY_API_KEY) {
+    throw new Error("Missing NETLIFY_API_KEY environment variable");
+  }
+  return fetchUpstreamJson(buildDeploysUrl(siteId, page), NETLIFY_API_KEY);
+};
+
+const parsePage = (json: unknown, label: string): UpstreamDeploy[] => {
+  const parsed = upstreamDeploysSchema.safeParse(json);
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    console.error("Proxy: Unexpected deploys payload for", label, details);
+    throw new UpstreamError('UPSTREAM_INVALID_RESPONSE', 'Netlify API returned an unexpected deploys payload', { details });
+  }
+  return parsed.data;
+};
+
+const toDeploy = (deploy: UpstreamDeploy): Deploy => ({
+  id: deploy.id,
+  publishedAt: Date.parse(deploy.published_at as string),
+  branch: deploy.branch ?? null,
+  commitMessage: deploy.title?.split('\n')[0] || null,
+  commitRef: deploy.commit_ref ?? null,
+  commitUrl: deploy.commit_url ?? null,
+});
+
+// Deploys published within [from, to], oldest first. Throws UpstreamError on failure.
+export const fetchDeploys = async (siteId: string, from: number, to: number, timezone: string, label = ''): Promise<Deploy[]> => {
+  if (ANALYTICS_PROVIDER === 'replay') return [];
+
+  const published: UpstreamDeploy[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const json = ANALYTICS_PROVIDER === 'demo'
+      ? (page === 1 ? demoDeploys(siteId, from, to, timezone) : [])
+      : await fetchPage(siteId, page);
+    const deploys = parsePage(json, label);
+    published.push(...deploys.filter((deploy) => deploy.published_at));
+
+    const oldest = deploys[deploys.length - 1];
+    if (deploys.length < PAGE_SIZE || !oldest || Date.parse(oldest.created_at) < from) break;
+    if (page === MAX_PAGES) console.warn(`Deploy history for ${label} goes past ${MAX_PAGES} pages; older markers are left out`);
+  }
+
+  return published
+    .map(toDeploy)
+    .filter((deploy) => deploy.publishedAt >= from && deploy.publishedAt <= to)
+    .sort((a, b) => a.publishedAt - b.publishedAt);
+};
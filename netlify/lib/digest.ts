@@ -0,0 +1,268 @@
+import { fetchAnalytics } from "./analyticsApi";
+import type { Annotation, BandwidthRecord, RankingRow, TimeSeriesRow } from "../../shared/analytics";
+import { listAnnotations } from "./annotations";
+import { mapWithConcurrency } from "./concurrency";
+import type { Endpoint } from "./endpoints";
+import type { SiteConfig } from "./sites";
+import { resolveRangeExpression, ResolvedRange, toCivilDate } from "./timeRange";
+import { WEEK_STARTS_ON } from "./weekStart";
+
+// Builds the periodic email digest: one message per site summarising the last closed
+// day, week or month against the period before it. Configured through env vars:
+//   DIGEST_RECIPIENTS  comma separated addresses (required)
+//   DIGEST_CADENCE     daily | weekly | monthly (default weekly)
+//   DIGEST_SECTIONS    any of totals, pages, sources, not_found, bandwidth, annotations (default all)
+//   DIGEST_TIMEZONE    timezone periods are aligned to (default UTC)
+
+export const DIGEST_SECTIONS = ['totals', 'pages', 'sources', 'not_found', 'bandwidth', 'annotations'] as const;
+
+export type DigestSection = typeof DIGEST_SECTIONS[number];
+export type DigestCadence = 'daily' | 'weekly' | 'monthly';
+
+export interface DigestConfig {
+  recipients: string[];
+  cadence: DigestCadence;
+  sections: DigestSection[];
+  timezone: string;
+  weekStartsOn: number;
+}
+
+const PERIOD_FOR_CADENCE = {
+  daily: 'yesterday',
+  weekly: 'prev-week',
+  monthly: 'prev-month',
+} as const;
+
+const TOP_LIMIT = 10;
+// Deep enough that a 404 dropping off the previous period's top list isn't reported as new
+const NOT_FOUND_LIMIT = 100;
+
+const DIGEST_CONCURRENCY = 4;
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+export const getDigestConfig = (): DigestConfig => {
+  const cadence = Netlify.env.get("DIGEST_CADENCE") || 'weekly';
+  const sections = splitList(Netlify.env.get("DIGEST_SECTIONS"));
+  return {
+    recipients: splitList(Netlify.env.get("DIGEST_RECIPIENTS")),
+    cadence: cadence === 'daily' || cadence === 'monthly' ? cadence : 'weekly',
+    sections: sections.length > 0
+      ? DIGEST_SECTIONS.filter((section) => sections.includes(section))
+      : [...DIGEST_SECTIONS],
+    timezone: Netlify.env.get("DIGEST_TIMEZONE") || 'UTC',
+    weekStartsOn: WEEK_STARTS_ON,
+  };
+};
+
+// The function runs daily; weekly and monthly digests only go out on the first day of a period
+export const isDigestDue = (config: DigestConfig, now: number): boolean => {
+  if (config.cadence === 'daily') return true;
+  const options = { now, timeZone: config.timezone, weekStartsOn: config.weekStartsOn };
+  const period = resolveRangeExpression(config.cadence === 'weekly' ? 'this-week' : 'mtd', options);
+  return period.from === resolveRangeExpression('today', options).from;
+};
+
+export interface Delta {
+  current: number;
+  previous: number;
+}
+
+export interface DigestData {
+  site: SiteConfig;
+  cadence: DigestCadence;
+  timezone: string;
+  period: ResolvedRange;
+  previous: ResolvedRange;
+  pageviews: Delta;
+  visitors: Delta;
+  bandwidth: Delta;
+  topPages: RankingRow[];
+  topSources: RankingRow[];
+  newNotFound: RankingRow[];
+  annotations: Annotation[];
+}
+
+// Calls below mix endpoints, so each result is narrowed back to the shape its endpoint returns
+const sumPoints = (rows: unknown[]): number =>
+  (rows as TimeSeriesRow[]).reduce((total, [, value]) => total + value, 0);
+
+const bandwidthOf = (rows: unknown[]): number =>
+  (rows as BandwidthRecord[])[0]?.siteBandwidth ?? 0;
+
+export const collectDigest = async (site: SiteConfig, config: DigestConfig, now: number): Promise<DigestData> => {
+  const options = { now, timeZone: config.timezone, weekStartsOn: config.weekStartsOn };
+  const period = resolveRangeExpression(PERIOD_FOR_CADENCE[config.cadence], options);
+  // The same expression evaluated from inside the period yields the one before it
+  const previous = resolveRangeExpression(PERIOD_FOR_CADENCE[config.cadence], { ...options, now: period.from });
+
+  const calls: { range: ResolvedRange; endpoint: Endpoint; limit?: number }[] = [
+    { range: period, endpoint: '/pageviews' },
+    { range: period, endpoint: '/visitors' },
+    { range: period, endpoint: '/bandwidth' },
+    { range: period, endpoint: '/ranking/pages', limit: TOP_LIMIT },
+    { range: period, endpoint: '/ranking/sources', limit: TOP_LIMIT },
+    { range: period, endpoint: '/ranking/not_found', limit: NOT_FOUND_LIMIT },
+    { range: previous, endpoint: '/pageviews' },
+    { range: previous, endpoint: '/visitors' },
+    { range: previous, endpoint: '/bandwidth' },
+    { range: previous, endpoint: '/ranking/not_found', limit: NOT_FOUND_LIMIT },
+  ];
+
+  const [
+    pageviews, visitors, bandwidth, pages, sources, notFound,
+    previousPageviews, previousVisitors, previousBandwidth, previousNotFound,
+  ] = (await mapWithConcurrency(calls, DIGEST_CONCURRENCY, ({ range, endpoint, limit }) => fetchAnalytics({
+    siteId: site.id,
+    endpoint,
+    params: { limit },
+    from: range.from,
+    to: range.to,
+    timezone: config.timezone,
+  }, `digest ${site.name}`))).map((payload) => payload.data);
+
+  const annotations = await listAnnotations(site.id, toCivilDate(period.from, config.timezone), toCivilDate(period.to, config.timezone))
+    .catch((error) => {
+      // Notes are a nice-to-have; the numbers still go out without them
+      console.error(`Digest: failed reading annotations for ${site.name}:`, error);
+      return [];
+    });
+
+  const knownNotFound = new Set((previousNotFound as RankingRow[]).map((row) => row.resource));
+
+  return {
+    site,
+    cadence: config.cadence,
+    timezone: config.timezone,
+    period,
+    previous,
+    pageviews: { current: sumPoints(pageviews), previous: sumPoints(previousPageviews) },
+    visitors: { current: sumPoints(visitors), previous: sumPoints(previousVisitors) },
+    bandwidth: { current: bandwidthOf(bandwidth), previous: bandwidthOf(previousBandwidth) },
+    topPages: pages as RankingRow[],
+    topSources: sources as RankingRow[],
+    newNotFound: (notFound as RankingRow[]).filter((row) => !knownNotFound.has(row.resource)).slice(0, TOP_LIMIT),
+    annotations,
+  };
+};
+
+const CADENCE_TITLES: Record<DigestCadence, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+// Same units as formatBytes in the dashboard
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(2))} ${sizes[i]}`;
+};
+
+const formatDelta = ({ current, previous }: Delta): string => {
+  if (previous === 0) return current === 0 ? 'no change' : 'new';
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
+
+const formatPeriod = (range: ResolvedRange, timeZone: string): string => {
+  const format = (timestamp: number) => new Date(timestamp).toLocaleDateString('en-GB', {
+    timeZone,
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+  const first = format(range.from);
+  const last = format(range.to);
+  return first === last ? first : `${first} – ${last}`;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface RenderedSection {
+  title: string;
+  rows: [string, string, string?][];
+  empty: string;
+}
+
+const buildSections = (data: DigestData, sections: DigestSection[]): RenderedSection[] => {
+  const ranking = (rows: RankingRow[]): RenderedSection['rows'] =>
+    rows.map((row) => [row.resource, formatNumber(row.count)]);
+
+  return sections.map((section): RenderedSection => {
+    switch (section) {
+      case 'totals':
+        return {
+          title: 'Totals',
+          rows: [
+            ['Page views', formatNumber(data.pageviews.current), formatDelta(data.pageviews)],
+            ['Unique visitors', formatNumber(data.visitors.current), formatDelta(data.visitors)],
+          ],
+          empty: '',
+        };
+      case 'pages':
+        return { title: 'Top pages', rows: ranking(data.topPages), empty: 'No page views recorded.' };
+      case 'sources':
+        return { title: 'Top sources', rows: ranking(data.topSources), empty: 'No referrers recorded.' };
+      case 'not_found':
+        return { title: 'New 404s', rows: ranking(data.newNotFound), empty: 'No new missing pages.' };
+      case 'bandwidth':
+        return {
+          title: 'Bandwidth',
+          rows: [['Site bandwidth', formatBytes(data.bandwidth.current), formatDelta(data.bandwidth)]],
+          empty: '',
+        };
+      case 'annotations':
+        return {
+          title: 'Notes',
+          rows: data.annotations.map((annotation) => [
+            annotation.label,
+            annotation.endDate && annotation.endDate !== annotation.date ? `${annotation.date} – ${annotation.endDate}` : annotation.date,
+          ]),
+          empty: 'No notes for this period.',
+        };
+    }
+  });
+};
+
+export const renderDigest = (data: DigestData, sections: DigestSection[]): { subject: string; html: string; text: string } => {
+  const title = `${CADENCE_TITLES[data.cadence]} analytics digest: ${data.site.name}`;
+  const period = formatPeriod(data.period, data.timezone);
+  const comparedTo = `Compared with ${formatPeriod(data.previous, data.timezone)}`;
+  const rendered = buildSections(data, sections);
+
+  const text = [
+    title,
+    period,
+    comparedTo,
+    ...rendered.map((section) => [
+      '',
+      section.title.toUpperCase(),
+      ...(section.rows.length > 0
+        ? section.rows.map(([label, value, delta]) => `  ${label}: ${value}${delta ? ` (${delta})` : ''}`)
+        : [`  ${section.empty}`]),
+    ].join('\n')),
+  ].join('\n');
+
+  const cell = 'padding:4px 12px 4px 0;border-bottom:1px solid #eee;';
+  const html = `<!doctype html>
+<html>
+<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#1a202c;max-width:640px;margin:0 auto;padding:24px;">
+<h1 style="font-size:20px;margin:0 0 4px;">${escapeHtml(title)}</h1>
+<p style="color:#718096;margin:0 0 24px;">${escapeHtml(period)}<br>${escapeHtml(comparedTo)}</p>
+${rendered.map((section) => `<h2 style="font-size:16px;margin:24px 0 8px;color:#6b46c1;">${escapeHtml(section.title)}</h2>
+${section.rows.length > 0
+    ? `<table style="border-collapse:collapse;width:100%;font-size:14px;">
+${section.rows.map(([label, value, delta]) => `<tr><td style="${cell}word-break:break-all;">${escapeHtml(label)}</td><td style="${cell}text-align:right;white-space:nowrap;">${escapeHtml(value)}</td>${delta ? `<td style="${cell}text-align:right;color:#718096;white-space:nowrap;">${escapeHtml(delta)}</td>` : ''}</tr>`).join('\n')}
+</table>`
+    : `<p style="color:#718096;font-size:14px;">${escapeHtml(section.empty)}</p>`}`).join('\n')}
+</body>
+</html>`;
+
+  return { subject: `${title} (${period})`, html, text };
+};
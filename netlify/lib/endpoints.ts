@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { COMPARISONS, Endpoint, GRANULARITIES, MAX_RANKING_LIMIT } from "../../shared/analytics";
+import { isRangeExpression, RangeExpression } from "./timeRange";
+import { findSite } from "./sites";
+
+// Upstream endpoints the proxy is willing to call, each with the query params it may forward.
+// Anything not listed here is rejected before a request is made with our API key.
+
+const noParams = z.object({}).strict();
+
+// `granularity` never reaches upstream; the proxy turns it into a resolution and resamples
+const timeSeriesParams = z.object({
+  granularity: z.enum(GRANULARITIES).optional(),
+}).strict();
+
+const rankingParams = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_RANKING_LIMIT).optional(),
+}).strict();
+
+export const ENDPOINTS = {
+  '/pageviews': timeSeriesParams,
+  '/visitors': timeSeriesParams,
+  '/bandwidth': noParams,
+  '/ranking/pages': rankingParams,
+  '/ranking/sources': rankingParams,
+  '/ranking/countries': rankingParams,
+  '/ranking/not_found': rankingParams,
+} satisfies Record<Endpoint, z.ZodType<Record<string, string | number | undefined>>>;
+
+export type { Endpoint };
+
+export const isEndpoint = (value: string): value is Endpoint =>
+  Object.prototype.hasOwnProperty.call(ENDPOINTS, value);
+
+// Most a single batch request may ask for; the dashboard itself needs seven
+export const MAX_BATCH_SIZE = 20;
+
+const endpointField = z.string().refine(isEndpoint, (value) => ({
+  message: `Unsupported endpoint '${value}'. Allowed: ${Object.keys(ENDPOINTS).join(', ')}`,
+}));
+
+const paramsField = z.record(z.union([z.string(), z.number()])).optional();
+
+const rangeFields = {
+  siteId: z.string()
+    .refine((siteId) => findSite(siteId) !== undefined, (siteId) => ({
+      message: `Unknown site '${siteId}'`,
+    }))
+    .optional(),
+  timeRange: z.string()
+    .refine(isRangeExpression, { message: "Invalid 'timeRange' value" })
+    .default('30d'),
+  from: z.number().finite().optional(),
+  to: z.number().finite().optional(),
+  // Also answer every endpoint for this earlier period, returned as `previous`
+  compare: z.enum(COMPARISONS).optional(),
+};
+
+const checkRange = (body: { from?: number; to?: number }, ctx: z.RefinementCtx) => {
+  if ((body.from === undefined) !== (body.to === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: "'from' and 'to' must be provided together" });
+  } else if (body.from !== undefined && body.to !== undefined && body.from >= body.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: "'from' must be before 'to'" });
+  }
+};
+
+// Validates params against the endpoint's own schema, reporting issues under `path`
+const checkParams = (
+  call: { endpoint: string; params?: Record<string, string | number> },
+  ctx: z.RefinementCtx,
+  path: (string | number)[],
+) => {
+  if (!isEndpoint(call.endpoint)) return;
+  const paramsResult = ENDPOINTS[call.endpoint].safeParse(call.params ?? {});
+  if (!paramsResult.success) {
+    for (const issue of paramsResult.error.issues) {
+      ctx.addIssue({ ...issue, path: [...path, 'params', ...issue.path] });
+    }
+  }
+};
+
+const toEndpointCall = (call: { endpoint: string; params?: Record<string, string | number> }) => ({
+  endpoint: call.endpoint as Endpoint,
+  params: ENDPOINTS[call.endpoint as Endpoint].parse(call.params ?? {}),
+});
+
+export const proxyRequestSchema = z.object({
+  endpoint: endpointField,
+  params: paramsField,
+  ...rangeFields,
+}).strict().superRefine((body, ctx) => {
+  checkRange(body, ctx);
+  checkParams(body, ctx, []);
+}).transform((body) => ({
+  ...body,
+  ...toEndpointCall(body),
+  timeRange: body.timeRange as RangeExpression,
+}));
+
+export type ProxyRequest = z.infer<typeof proxyRequestSchema>;
+
+// Several endpoints for one site and range; `key` names each entry in the response
+// and defaults to the endpoint path
+export const batchRequestSchema = z.object({
+  batch: z.array(z.object({
+    key: z.string().min(1).max(64).optional(),
+    endpoint: endpointField,
+    params: paramsField,
+  }).strict()).min(1).max(MAX_BATCH_SIZE),
+  ...rangeFields,
+}).strict().superRefine((body, ctx) => {
+  checkRange(body, ctx);
+  const seen = new Set<string>();
+  body.batch.forEach((item, index) => {
+    checkParams(item, ctx, ['batch', index]);
+    const key = item.key ?? item.endpoint;
+    if (seen.has(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['batch', index, 'key'], message: `Duplicate batch key '${key}'` });
+    }
+    seen.add(key);
+  });
+}).transform((body) => ({
+  ...body,
+  timeRange: body.timeRange as RangeExpression,
+  batch: body.batch.map((item) => ({ key: item.key ?? item.endpoint, ...toEndpointCall(item) })),
+}));
+
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+
+// Published deploys of one site over a range, for the deploys function
+export const deploysRequestSchema = z.object(rangeFields).omit({ compare: true }).strict()
+  .superRefine(checkRange)
+  .transform((body) => ({ ...body, timeRange: body.timeRange as RangeExpression }));
+
+export type DeploysRequest = z.infer<typeof deploysRequestSchema>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Flattens zod issues into the `issues` array of a 400 response
+export const toValidationIssues = (error: z.ZodError): ValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join('.') || '(body)',
+    message: issue.message,
+  }));
@@ -0,0 +1,74 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AnalyticsQuery } from "./analyticsApi";
+
+// Recorded upstream responses, replayed to run the dashboard offline. Files live under
+// ANALYTICS_FIXTURES_DIR/<siteId>/<endpoint>/<request hash>.json and hold the request
+// alongside the raw response, so they can be inspected and edited by hand.
+
+const FIXTURES_DIR = Netlify.env.get("ANALYTICS_FIXTURES_DIR") || 'fixtures/analytics';
+
+interface Fixture {
+  request: AnalyticsQuery;
+  recordedAt: string;
+  response: unknown;
+}
+
+const directoryFor = (query: AnalyticsQuery) =>
+  path.join(FIXTURES_DIR, query.siteId, query.endpoint.slice(1).replace(/\//g, '_'));
+
+// Params are part of the match, so `limit=10` and `limit=100` are recorded separately
+const paramsKey = (query: AnalyticsQuery) =>
+  JSON.stringify(Object.entries(query.params ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b)));
+
+const fileFor = (query: AnalyticsQuery) => {
+  const digest = createHash('sha256')
+    .update(JSON.stringify([paramsKey(query), query.from, query.to, query.timezone]))
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(directoryFor(query), `${digest}.json`);
+};
+
+export const recordFixture = async (query: AnalyticsQuery, response: unknown): Promise<void> => {
+  try {
+    await mkdir(directoryFor(query), { recursive: true });
+    const fixture: Fixture = { request: query, recordedAt: new Date().toISOString(), response };
+    await writeFile(fileFor(query), `${JSON.stringify(fixture, null, 2)}\n`);
+  } catch (error) {
+    // Recording is a side job; the real response still goes back to the caller
+    console.error("Failed recording analytics fixture:", error);
+  }
+};
+
+// Exact match on the request first. Rolling ranges move with the clock, so otherwise fall
+// back to the most recent recording of the same endpoint and params.
+export const replayFixture = async (query: AnalyticsQuery): Promise<unknown> => {
+  const read = async (file: string) => JSON.parse(await readFile(file, 'utf8')) as Fixture;
+
+  try {
+    return (await read(fileFor(query))).response;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  let files: string[] = [];
+  try {
+    files = await readdir(directoryFor(query));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const candidates = (await Promise.all(files
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => read(path.join(directoryFor(query), file)))))
+    .filter((fixture) => paramsKey(fixture.request) === paramsKey(query))
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+
+  if (candidates.length === 0) {
+    throw new Error(`No recorded fixture for ${query.endpoint} on site ${query.siteId} in ${FIXTURES_DIR}`);
+  }
+  return candidates[0].response;
+};
@@ -0,0 +1,36 @@
+import nodemailer from "nodemailer";
+
+// SMTP delivery for the scheduled reports. Point SMTP_HOST/SMTP_PORT at a local catcher
+// (e.g. MailHog or smtp4dev on localhost:1025) to preview messages during development.
+
+const SMTP_HOST = Netlify.env.get("SMTP_HOST");
+const SMTP_PORT = Number(Netlify.env.get("SMTP_PORT")) || 587;
+// Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+const SMTP_SECURE = Netlify.env.get("SMTP_SECURE") === 'true';
+const SMTP_USER = Netlify.env.get("SMTP_USER");
+const SMTP_PASS = Netlify.env.get("SMTP_PASS");
+const MAIL_FROM = Netlify.env.get("MAIL_FROM") || 'analytics@localhost';
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const isMailConfigured = (): boolean => !!SMTP_HOST;
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!SMTP_HOST) {
+    throw new Error("Missing SMTP_HOST environment variable");
+  }
+
+  const transport = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASS } : undefined,
+  });
+
+  await transport.sendMail({ from: MAIL_FROM, ...message });
+};
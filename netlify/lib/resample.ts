@@ -0,0 +1,40 @@
+import type { Granularity, TimeSeriesRow } from "../../shared/analytics";
+import { ResolveOptions, startOfBucket } from "./timeRange";
+
+// Regroups /pageviews and /visitors points into buckets of the requested granularity.
+//
+// Page views are summed. Unique visitors can't be: someone who comes back on Tuesday is
+// still one visitor for the week, and upstream only counts them per hour or per day. So a
+// visitors bucket holds the average of the points inside it (visitors per day for weekly
+// and monthly buckets) rather than a sum that would count returning visitors again.
+
+export type Aggregation = 'sum' | 'mean';
+
+export const aggregationFor = (endpoint: '/pageviews' | '/visitors'): Aggregation =>
+  endpoint === '/visitors' ? 'mean' : 'sum';
+
+// Upstream `resolution` to ask for; coarser buckets are built from daily points
+export const upstreamResolutionFor = (granularity: Granularity): 'hour' | 'day' =>
+  granularity === 'hourly' ? 'hour' : 'day';
+
+export const resampleSeries = (
+  rows: TimeSeriesRow[],
+  granularity: Granularity,
+  aggregation: Aggregation,
+  options: Omit<ResolveOptions, 'now'>,
+): TimeSeriesRow[] => {
+  const buckets = new Map<number, { total: number; points: number }>();
+  for (const [timestamp, value] of rows) {
+    const start = startOfBucket(timestamp, granularity, options);
+    const bucket = buckets.get(start) ?? { total: 0, points: 0 };
+    bucket.total += value;
+    bucket.points += 1;
+    buckets.set(start, bucket);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, { total, points }]): TimeSeriesRow => [
+      start,
+      aggregation === 'sum' ? total : Math.round(total / points),
+    ]);
+};
@@ -0,0 +1,97 @@
+import { createHmac, scryptSync, timingSafeEqual } from "node:crypto";
+import type { Context } from "@netlify/functions";
+
+// Password gate for the dashboard. Auth is enabled as soon as either DASHBOARD_PASSWORD
+// (plain shared secret) or DASHBOARD_PASSWORD_HASH (`scrypt:<salt hex>:<key hex>`, see
+// `npm run hash-password`) is set; sessions are HMAC-signed with SESSION_SECRET.
+
+export const SESSION_COOKIE = 'lcna_session';
+
+const SCRYPT_KEY_LENGTH = 64;
+
+const DASHBOARD_PASSWORD = Netlify.env.get("DASHBOARD_PASSWORD");
+const DASHBOARD_PASSWORD_HASH = Netlify.env.get("DASHBOARD_PASSWORD_HASH");
+const SESSION_SECRET = Netlify.env.get("SESSION_SECRET");
+const SESSION_TTL_SECONDS = (Number(Netlify.env.get("SESSION_TTL_HOURS")) || 12) * 60 * 60;
+
+interface SessionPayload {
+  iat: number;
+  exp: number;
+}
+
+export const isAuthEnabled = (): boolean => !!(DASHBOARD_PASSWORD || DASHBOARD_PASSWORD_HASH);
+
+// Auth is on but sessions cannot be signed, so every request must be refused
+export const isAuthMisconfigured = (): boolean => isAuthEnabled() && !SESSION_SECRET;
+
+const safeEqual = (a: Buffer, b: Buffer): boolean => a.length === b.length && timingSafeEqual(a, b);
+
+export const verifyPassword = (password: string): boolean => {
+  if (DASHBOARD_PASSWORD_HASH) {
+    const [scheme, salt, key] = DASHBOARD_PASSWORD_HASH.split(':');
+    if (scheme !== 'scrypt' || !salt || !key) {
+      console.error("DASHBOARD_PASSWORD_HASH is not in 'scrypt:<salt>:<key>' format");
+      return false;
+    }
+    const derived = scryptSync(password, Buffer.from(salt, 'hex'), SCRYPT_KEY_LENGTH);
+    return safeEqual(derived, Buffer.from(key, 'hex'));
+  }
+  if (DASHBOARD_PASSWORD) {
+    return safeEqual(Buffer.from(password), Buffer.from(DASHBOARD_PASSWORD));
+  }
+  return false;
+};
+
+const sign = (value: string): string =>
+  createHmac('sha256', SESSION_SECRET ?? '').update(value).digest('base64url');
+
+const encodeSession = (payload: SessionPayload): string => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+};
+
+const decodeSession = (token: string | undefined): SessionPayload | null => {
+  if (!token || !SESSION_SECRET) return null;
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+  if (!safeEqual(Buffer.from(signature), Buffer.from(sign(encoded)))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as SessionPayload;
+    return typeof payload.exp === 'number' && payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getSession = (context: Context): SessionPayload | null =>
+  decodeSession(context.cookies.get(SESSION_COOKIE));
+
+// True when the request may proceed: auth disabled, or a valid unexpired session cookie
+export const isAuthorized = (context: Context): boolean =>
+  !isAuthEnabled() || (!isAuthMisconfigured() && getSession(context) !== null);
+
+export const startSession = (context: Context): SessionPayload => {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = { iat, exp: iat + SESSION_TTL_SECONDS };
+  context.cookies.set({
+    name: SESSION_COOKIE,
+    value: encodeSession(payload),
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Strict',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return payload;
+};
+
+export const endSession = (context: Context): void => {
+  context.cookies.delete({ name: SESSION_COOKIE, path: '/' });
+};
+
+export const unauthorizedResponse = (): Response =>
+  new Response(JSON.stringify({ error: "Unauthorized: please log in.", code: 'UNAUTHORIZED' }), {
+    status: 401,
+    headers: { 'Content-Type': 'application/json' },
+  });
@@ -0,0 +1,57 @@
+import type { Context } from "@netlify/functions";
+import { z } from "zod";
+import { toValidationIssues } from "./endpoints";
+import { isAuthMisconfigured, isAuthorized, unauthorizedResponse } from "./session";
+import { findSite, SITES, type SiteConfig } from "./sites";
+
+// Shared plumbing for the small per-site JSON functions (annotations, triage): responses,
+// body parsing and the config / session / `?siteId=` checks every request goes through first.
+
+export const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+// A 400 for a body that failed its schema, or for a plain reason such as unparseable JSON
+export const invalidBody = (error: z.ZodError | string) => {
+  if (typeof error === 'string') return json({ error: `Invalid request body: ${error}` }, 400);
+  const issues = toValidationIssues(error);
+  return json({
+    error: `Invalid request body: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+    issues,
+  }, 400);
+};
+
+// Parses the JSON body against `schema`; a body that isn't JSON at all comes back with a `message`
+export const readBody = async <T extends z.ZodTypeAny>(req: Request, schema: T) => {
+  try {
+    return schema.safeParse(await req.json()) as z.SafeParseReturnType<z.input<T>, z.output<T>>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false as const, message };
+  }
+};
+
+// The site a request is for, or the error response to send instead
+export const authorizeSiteRequest = (req: Request, context: Context): SiteConfig | Response => {
+  if (SITES.length === 0) {
+    console.error("Function Error: Missing NETLIFY_SITES / NETLIFY_SITE_ID environment variables.");
+    return json({ error: "Internal server configuration error." }, 500);
+  }
+
+  if (isAuthMisconfigured()) {
+    console.error("Function Error: DASHBOARD_PASSWORD(_HASH) is set but SESSION_SECRET is missing.");
+    return json({ error: "Internal server configuration error." }, 500);
+  }
+
+  if (!isAuthorized(context)) {
+    return unauthorizedResponse();
+  }
+
+  const siteId = new URL(req.url).searchParams.get('siteId') ?? undefined;
+  const site = findSite(siteId);
+  if (!site) {
+    return json({ error: `Invalid request: Unknown site '${siteId}'` }, 400);
+  }
+  return site;
+};
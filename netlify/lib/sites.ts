@@ -0,0 +1,91 @@
+import { z } from "zod";
+import {
+  ContentGroup,
+  contentGroupsSchema,
+  PathNormalizationStep,
+  pathNormalizationSchema,
+  Site,
+  siteSchema,
+} from "../../shared/analytics";
+
+// Sites the dashboard may query. Configure several with NETLIFY_SITES, a JSON array like
+// [{"id":"<site id>","name":"Marketing","domain":"example.com"}], or a single one with NETLIFY_SITE_ID
+// (+ NETLIFY_SITE_NAME, NETLIFY_SITE_DOMAIN). `domain` is optional.
+// Content groups come from a site's own `contentGroups`, else from CONTENT_GROUPS, a JSON array like
+// [{"name":"Blog","rules":["/blog/*"]},{"name":"Docs","rules":[{"regex":"^/docs(/|$)"}]}].
+// Path normalization likewise comes from a site's `pathNormalization`, else from PATH_NORMALIZATION,
+// a comma-separated list of steps such as "strip_query,trailing_slash" ("none" turns it off).
+// In demo mode (ANALYTICS_PROVIDER=demo) a made-up site is used when none are configured.
+
+export type SiteConfig = Site;
+
+const sitesSchema = z.array(siteSchema).min(1);
+
+const DEMO_CONTENT_GROUPS: ContentGroup[] = [
+  { name: 'Blog', rules: ['/blog', '/blog/*'] },
+  { name: 'Docs', rules: [{ regex: '^/docs(/|$)' }] },
+  { name: 'Product', rules: ['/pricing', '/integrations', '/customers', '/security', '/changelog'] },
+];
+
+const loadContentGroups = (): ContentGroup[] | undefined => {
+  const groupsJson = Netlify.env.get("CONTENT_GROUPS");
+  if (!groupsJson) return undefined;
+  try {
+    const parsed = contentGroupsSchema.safeParse(JSON.parse(groupsJson));
+    if (parsed.success) return parsed.data;
+    console.error("CONTENT_GROUPS is invalid:", parsed.error.issues);
+  } catch (error) {
+    console.error("CONTENT_GROUPS is not valid JSON:", error);
+  }
+  return undefined;
+};
+
+const loadPathNormalization = (): PathNormalizationStep[] | undefined => {
+  const stepsList = Netlify.env.get("PATH_NORMALIZATION")?.trim();
+  if (!stepsList) return undefined;
+  if (stepsList === 'none') return [];
+  const parsed = pathNormalizationSchema.safeParse(stepsList.split(',').map((step) => step.trim()).filter(Boolean));
+  if (parsed.success) return parsed.data;
+  console.error("PATH_NORMALIZATION is invalid:", parsed.error.issues);
+  return undefined;
+};
+
+const loadSites = (): SiteConfig[] => {
+  const sitesJson = Netlify.env.get("NETLIFY_SITES");
+  if (sitesJson) {
+    try {
+      const parsed = sitesSchema.safeParse(JSON.parse(sitesJson));
+      if (parsed.success) return parsed.data;
+      console.error("NETLIFY_SITES is invalid:", parsed.error.issues);
+    } catch (error) {
+      console.error("NETLIFY_SITES is not valid JSON:", error);
+    }
+    return [];
+  }
+
+  const siteId = Netlify.env.get("NETLIFY_SITE_ID");
+  if (siteId) {
+    return [{
+      id: siteId,
+      name: Netlify.env.get("NETLIFY_SITE_NAME") || "Site Analytics",
+      domain: Netlify.env.get("NETLIFY_SITE_DOMAIN") || undefined,
+    }];
+  }
+  return Netlify.env.get("ANALYTICS_PROVIDER") === 'demo'
+    ? [{ id: 'demo-site', name: "Demo Site", domain: 'demo.example.com', contentGroups: DEMO_CONTENT_GROUPS }]
+    : [];
+};
+
+const CONTENT_GROUPS = loadContentGroups();
+const PATH_NORMALIZATION = loadPathNormalization();
+
+// Site-level settings win over the ones shared through env vars
+export const SITES: SiteConfig[] = loadSites().map((site) => ({
+  ...site,
+  contentGroups: site.contentGroups ?? CONTENT_GROUPS,
+  pathNormalization: site.pathNormalization ?? PATH_NORMALIZATION,
+}));
+
+// Requests without a siteId fall back to the first configured site
+export const findSite = (siteId?: string): SiteConfig | undefined =>
+  siteId === undefined ? SITES[0] : SITES.find((site) => site.id === siteId);
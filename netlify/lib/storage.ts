@@ -0,0 +1,118 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getStore as getBlobStore } from "@netlify/blobs";
+
+// Small JSON key/value abstraction shared by everything the functions persist.
+// STORAGE_DRIVER picks the backend:
+//   - blobs  (default on Netlify) Netlify Blobs, one blob store per name
+//   - memory (default under `netlify dev`) per-process Map, lost on cold start
+//   - file   JSON files under STORAGE_DIR/<name>/, handy for local runs and for looking at what was stored
+
+export interface JsonStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): Promise<string[]>;
+}
+
+export type StorageDriver = 'blobs' | 'memory' | 'file';
+
+export const createMemoryStore = (): JsonStore => {
+  const entries = new Map<string, string>();
+  return {
+    async get<T>(key: string) {
+      const raw = entries.get(key);
+      return raw === undefined ? null : (JSON.parse(raw) as T);
+    },
+    async set<T>(key: string, value: T) {
+      // Serialise so callers can't mutate stored values by reference
+      entries.set(key, JSON.stringify(value));
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(prefix = '') {
+      return [...entries.keys()].filter((key) => key.startsWith(prefix)).sort();
+    },
+  };
+};
+
+export const createFileStore = (directory: string): JsonStore => {
+  const fileFor = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`);
+  return {
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8')) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async set<T>(key: string, value: T) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(value));
+    },
+    async delete(key: string) {
+      await rm(fileFor(key), { force: true });
+    },
+    async list(prefix = '') {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      return files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => decodeURIComponent(file.slice(0, -'.json'.length)))
+        .filter((key) => key.startsWith(prefix))
+        .sort();
+    },
+  };
+};
+
+export const createBlobStore = (name: string): JsonStore => {
+  const store = getBlobStore({ name, consistency: 'strong' });
+  return {
+    async get<T>(key: string) {
+      return ((await store.get(key, { type: 'json' })) ?? null) as T | null;
+    },
+    async set<T>(key: string, value: T) {
+      await store.setJSON(key, value);
+    },
+    async delete(key: string) {
+      await store.delete(key);
+    },
+    async list(prefix = '') {
+      const { blobs } = await store.list({ prefix });
+      return blobs.map((blob) => blob.key).sort();
+    },
+  };
+};
+
+const resolveDriver = (): StorageDriver => {
+  const configured = Netlify.env.get("STORAGE_DRIVER");
+  if (configured === 'blobs' || configured === 'memory' || configured === 'file') return configured;
+  if (configured) console.warn(`Unknown STORAGE_DRIVER '${configured}', falling back to the default`);
+  return Netlify.env.get("NETLIFY_DEV") === 'true' ? 'memory' : 'blobs';
+};
+
+const stores = new Map<string, JsonStore>();
+
+// Memoised per name so the in-memory driver keeps its contents between invocations
+export const getStore = (name: string): JsonStore => {
+  let store = stores.get(name);
+  if (!store) {
+    const driver = resolveDriver();
+    if (driver === 'memory') {
+      store = createMemoryStore();
+    } else if (driver === 'file') {
+      store = createFileStore(path.join(Netlify.env.get("STORAGE_DIR") || '.netlify/storage', name));
+    } else {
+      store = createBlobStore(name);
+    }
+    stores.set(name, store);
+  }
+  return store;
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { civilDayRange, resolveComparisonRange, resolveRangeExpression } from "./timeRange";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("resolveRangeExpression", () => {
+  it("ends rolling windows now", () => {
+    const now = at("2026-10-21T12:34:56Z");
+    const options = { now, timeZone: "UTC", weekStartsOn: 1 };
+    expect(resolveRangeExpression("7d", options)).toEqual({ from: now - 7 * DAY, to: now });
+    expect(resolveRangeExpression("2w", options)).toEqual({ from: now - 14 * DAY, to: now });
+    expect(resolveRangeExpression("1m", options)).toEqual({ from: now - 30 * DAY, to: now });
+  });
+
+  it("aligns calendar periods to midnight in the client's timezone", () => {
+    // 02:00 UTC is still the evening of the 18th in New York
+    const now = at("2026-10-19T02:00:00Z");
+    const options = { now, timeZone: "America/New_York", weekStartsOn: 1 };
+    expect(resolveRangeExpression("today", options)).toEqual({ from: at("2026-10-18T04:00:00Z"), to: now });
+    expect(resolveRangeExpression("yesterday", options)).toEqual({
+      from: at("2026-10-17T04:00:00Z"),
+      to: at("2026-10-18T04:00:00Z") - 1,
+    });
+  });
+
+  it("gives a DST changeover day its real length", () => {
+    // Clocks in Berlin went forward on 29 March 2026, so that day only had 23 hours
+    const options = { now: at("2026-03-30T10:00:00Z"), timeZone: "Europe/Berlin", weekStartsOn: 1 };
+    const yesterday = resolveRangeExpression("yesterday", options);
+    expect(yesterday).toEqual({ from: at("2026-03-28T23:00:00Z"), to: at("2026-03-29T22:00:00Z") - 1 });
+    expect(yesterday.to - yesterday.from + 1).toBe(23 * HOUR);
+  });
+
+  it("starts weeks on the configured day", () => {
+    // A Wednesday
+    const now = at("2026-10-21T12:00:00Z");
+    expect(resolveRangeExpression("this-week", { now, timeZone: "UTC", weekStartsOn: 1 }).from).toBe(at("2026-10-19T00:00:00Z"));
+    expect(resolveRangeExpression("this-week", { now, timeZone: "UTC", weekStartsOn: 0 }).from).toBe(at("2026-10-18T00:00:00Z"));
+    expect(resolveRangeExpression("prev-week", { now, timeZone: "UTC", weekStartsOn: 1 })).toEqual({
+      from: at("2026-10-12T00:00:00Z"),
+      to: at("2026-10-19T00:00:00Z") - 1,
+    });
+  });
+
+  it("crosses year boundaries for previous periods", () => {
+    const options = { now: at("2026-01-15T12:00:00Z"), timeZone: "UTC", weekStartsOn: 1 };
+    expect(resolveRangeExpression("prev-month", options)).toEqual({
+      from: at("2025-12-01T00:00:00Z"),
+      to: at("2026-01-01T00:00:00Z") - 1,
+    });
+    expect(resolveRangeExpression("prev-quarter", options)).toEqual({
+      from: at("2025-10-01T00:00:00Z"),
+      to: at("2026-01-01T00:00:00Z") - 1,
+    });
+  });
+});
+
+describe("civilDayRange", () => {
+  it("covers the whole local day", () => {
+    expect(civilDayRange("2026-10-19", "Asia/Tokyo")).toEqual({
+      from: at("2026-10-18T15:00:00Z"),
+      to: at("2026-10-19T15:00:00Z") - 1,
+    });
+  });
+});
+
+describe("resolveComparisonRange", () => {
+  const options = { now: at("2026-10-15T12:00:00Z"), timeZone: "UTC", weekStartsOn: 1 };
+
+  it("compares month to date with the same days of last month", () => {
+    const range = resolveRangeExpression("mtd", options);
+    expect(resolveComparisonRange(range, "mtd", "previous", options)).toEqual({
+      from: at("2026-09-01T00:00:00Z"),
+      to: at("2026-09-15T12:00:00Z"),
+    });
+  });
+
+  it("compares a closed month with the whole month before", () => {
+    const range = resolveRangeExpression("prev-month", options);
+    expect(resolveComparisonRange(range, "prev-month", "previous", options)).toEqual({
+      from: at("2026-08-01T00:00:00Z"),
+      to: at("2026-09-01T00:00:00Z") - 1,
+    });
+  });
+
+  it("puts rolling windows right before the range", () => {
+    const range = resolveRangeExpression("7d", options);
+    expect(resolveComparisonRange(range, "7d", "previous", options)).toEqual({
+      from: range.from - (range.to - range.from + 1),
+      to: range.from - 1,
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// Resolves range expressions sent by the dashboard into absolute timestamps.
+//
+// Two families are supported:
+//   - rolling windows ending now: `<N>d`, `<N>w`, `<N>m` (30-day months), `<N>y` (365-day years)
+//   - calendar-aligned periods, evaluated in the client's timezone:
+//     today, yesterday, this-week, prev-week, mtd, prev-month, qtd, prev-quarter, ytd, prev-year
+
+import { CALENDAR_RANGES, CalendarRange, Comparison, Granularity, RangeExpression } from "../../shared/analytics";
+
+export { CALENDAR_RANGES };
+export type { CalendarRange, RangeExpression, RollingRange } from "../../shared/analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ROLLING_UNIT_DAYS = { d: 1, w: 7, m: 30, y: 365 } as const;
+const ROLLING_PATTERN = /^(\d{1,4})([dwmy])$/;
+
+export interface ResolvedRange {
+  from: number;
+  to: number;
+}
+
+export interface ResolveOptions {
+  now: number;
+  timeZone: string;
+  // 0 = Sunday ... 6 = Saturday, same convention as Date#getDay
+  weekStartsOn: number;
+}
+
+export const isRangeExpression = (value: unknown): value is RangeExpression => {
+  if (typeof value !== 'string') return false;
+  if ((CALENDAR_RANGES as readonly string[]).includes(value)) return true;
+  const match = ROLLING_PATTERN.exec(value);
+  return !!match && Number(match[1]) > 0;
+};
+
+// Falls back to the function's own timezone when the header is missing or not a valid IANA name
+export const resolveTimeZone = (requested: string | null | undefined): string => {
+  if (requested) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: requested });
+      return requested;
+    } catch {
+      console.warn("Ignoring invalid client timezone:", requested);
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const readParts = (timestamp: number, timeZone: string) => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+};
+
+const getZonedParts = (timestamp: number, timeZone: string): ZonedParts => {
+  const parts = readParts(timestamp, timeZone);
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+const getOffset = (timestamp: number, timeZone: string): number => {
+  const parts = readParts(timestamp, timeZone);
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return asUtc - (timestamp - (timestamp % 1000));
+};
+
+// Instant of local midnight for a civil date. Out-of-range months/days roll over
+// the same way Date.UTC does, so callers can do plain arithmetic on the fields.
+const startOfZonedDay = (year: number, month: number, day: number, timeZone: string): number => {
+  const wallClock = Date.UTC(year, month - 1, day);
+  // Re-check the offset at the candidate instant so DST transitions land on the right side
+  const guess = wallClock - getOffset(wallClock, timeZone);
+  return wallClock - getOffset(guess, timeZone);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar date (YYYY-MM-DD) that the instant falls on in the given timezone
+export const toCivilDate = (timestamp: number, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const addCivilDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+// First and last millisecond of a calendar date in the given timezone
+export const civilDayRange = (date: string, timeZone: string): ResolvedRange => {
+  const [year, month, day] = date.split('-').map(Number);
+  return {
+    from: startOfZonedDay(year, month, day, timeZone),
+    to: startOfZonedDay(year, month, day + 1, timeZone) - 1,
+  };
+};
+
+// Start of the timeseries bucket the instant falls into. Weeks begin on `weekStartsOn`; hours
+// follow the local clock, so zones with half-hour offsets get half-hour aligned buckets.
+export const startOfBucket = (
+  timestamp: number,
+  granularity: Granularity,
+  { timeZone, weekStartsOn }: Omit<ResolveOptions, 'now'>,
+): number => {
+  if (granularity === 'hourly') {
+    const parts = readParts(timestamp, timeZone);
+    return timestamp - (timestamp % 1000) - (Number(parts.minute) * 60 + Number(parts.second)) * 1000;
+  }
+  const { year, month, day, weekday } = getZonedParts(timestamp, timeZone);
+  switch (granularity) {
+    case 'daily':
+      return startOfZonedDay(year, month, day, timeZone);
+    case 'weekly':
+      return startOfZonedDay(year, month, day - ((weekday - weekStartsOn + 7) % 7), timeZone);
+    case 'monthly':
+      return startOfZonedDay(year, month, 1, timeZone);
+  }
+};
+
+const resolveCalendarRange = (range: CalendarRange, { now, timeZone, weekStartsOn }: ResolveOptions): ResolvedRange => {
+  const { year, month, day, weekday } = getZonedParts(now, timeZone);
+  const midnight = (y: number, m: number, d: number) => startOfZonedDay(y, m, d, timeZone);
+  // Closed periods end the millisecond before the next one starts
+  const closed = (from: number, nextStart: number): ResolvedRange => ({ from, to: nextStart - 1 });
+
+  const daysIntoWeek = (weekday - weekStartsOn + 7) % 7;
+  const quarterStartMonth = Math.floor((month - 1) / 3) * 3 + 1;
+
+  switch (range) {
+    case 'today':
+      return { from: midnight(year, month, day), to: now };
+    case 'yesterday':
+      return closed(midnight(year, month, day - 1), midnight(year, month, day));
+    case 'this-week':
+      return { from: midnight(year, month, day - daysIntoWeek), to: now };
+    case 'prev-week':
+      return closed(midnight(year, month, day - daysIntoWeek - 7), midnight(year, month, day - daysIntoWeek));
+    case 'mtd':
+      return { from: midnight(year, month, 1), to: now };
+    case 'prev-month':
+      return closed(midnight(year, month - 1, 1), midnight(year, month, 1));
+    case 'qtd':
+      return { from: midnight(year, quarterStartMonth, 1), to: now };
+    case 'prev-quarter':
+      return closed(midnight(year, quarterStartMonth - 3, 1), midnight(year, quarterStartMonth, 1));
+    case 'ytd':
+      return { from: midnight(year, 1, 1), to: now };
+    case 'prev-year':
+      return closed(midnight(year - 1, 1, 1), midnight(year, 1, 1));
+  }
+};
+
+export const resolveRangeExpression = (expression: RangeExpression, options: ResolveOptions): ResolvedRange => {
+  const match = ROLLING_PATTERN.exec(expression);
+  if (match) {
+    const days = Number(match[1]) * ROLLING_UNIT_DAYS[match[2] as keyof typeof ROLLING_UNIT_DAYS];
+    return { from: options.now - days * DAY_MS, to: options.now };
+  }
+  return resolveCalendarRange(expression as CalendarRange, options);
+};
+
+// Same local wall-clock time `years` calendar years away (29 Feb rolls over to 1 Mar)
+const shiftYears = (timestamp: number, years: number, timeZone: string): number => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  const intoDay = timestamp - startOfZonedDay(year, month, day, timeZone);
+  return startOfZonedDay(year + years, month, day, timeZone) + intoDay;
+};
+
+// Closed period before each to-date range; the comparison covers the same stretch of it
+const PERIOD_BEFORE: Partial<Record<CalendarRange, CalendarRange>> = {
+  today: 'yesterday',
+  'this-week': 'prev-week',
+  mtd: 'prev-month',
+  qtd: 'prev-quarter',
+  ytd: 'prev-year',
+};
+
+// The period `range` is compared against. `expression` is what the range was resolved from,
+// if anything, so calendar periods compare with the previous calendar period (prev-month
+// with the month before, mtd with the same days of last month) instead of a fixed length.
+export const resolveComparisonRange = (
+  range: ResolvedRange,
+  expression: RangeExpression | undefined,
+  comparison: Comparison,
+  options: ResolveOptions,
+): ResolvedRange => {
+  if (comparison === 'year') {
+    return { from: shiftYears(range.from, -1, options.timeZone), to: shiftYears(range.to, -1, options.timeZone) };
+  }
+
+  if (expression && !ROLLING_PATTERN.test(expression)) {
+    const before = PERIOD_BEFORE[expression as CalendarRange];
+    if (before) {
+      const period = resolveCalendarRange(before, options);
+      return { from: period.from, to: Math.min(period.to, period.from + (range.to - range.from)) };
+    }
+    // Closed periods: the same expression evaluated from inside the period yields the one before it
+    return resolveCalendarRange(expression as CalendarRange, { ...options, now: range.from });
+  }
+
+  const length = range.to - range.from + 1;
+  return { from: range.from - length, to: range.from - 1 };
+};
@@ -0,0 +1,41 @@
+import type { TriageEntry, TriageReview, TriageState, triageInputSchema } from "../../shared/analytics";
+import type { z } from "zod";
+import { getStore } from "./storage";
+
+// 404 triage kept per site in the `triage` store: one entry per path under
+// `<siteId>/paths/<encoded path>`, plus the last review under `<siteId>/review`.
+
+export type ValidTriageInput = z.output<typeof triageInputSchema>;
+
+const store = () => getStore('triage');
+
+// Paths may hold anything (`?`, `#`, spaces), so they are encoded before becoming keys
+const entryKey = (siteId: string, path: string) => `${siteId}/paths/${encodeURIComponent(path)}`;
+
+const reviewKey = (siteId: string) => `${siteId}/review`;
+
+export const getTriage = async (siteId: string): Promise<TriageState> => {
+  const keys = await store().list(`${siteId}/paths/`);
+  const [entries, review] = await Promise.all([
+    Promise.all(keys.map((key) => store().get<TriageEntry>(key))),
+    store().get<TriageReview>(reviewKey(siteId)),
+  ]);
+  return {
+    entries: entries.filter((entry): entry is TriageEntry => entry !== null),
+    review,
+  };
+};
+
+// Creates or replaces the status and note of one path
+export const setTriage = async (siteId: string, input: ValidTriageInput): Promise<TriageEntry> => {
+  const entry: TriageEntry = { ...input, updatedAt: Date.now() };
+  await store().set(entryKey(siteId, input.path), entry);
+  return entry;
+};
+
+// Remembers which paths were listed, so later ones can be told apart as new
+export const recordReview = async (siteId: string, paths: string[]): Promise<TriageReview> => {
+  const review: TriageReview = { reviewedAt: Date.now(), paths: [...new Set(paths)] };
+  await store().set(reviewKey(siteId), review);
+  return review;
+};
@@ -0,0 +1,175 @@
+// HTTP client for the Netlify Analytics API: per-attempt timeouts, jittered exponential
+// retries on 5xx and network failures, Retry-After aware handling of 429s and a circuit
+// breaker that fails fast while upstream is unhealthy.
+
+import type { ProxyErrorCode } from "../../shared/analytics";
+
+export type UpstreamErrorCode = Extract<ProxyErrorCode, `UPSTREAM_${string}`>;
+
+// Status the proxy answers with for each failure, independent of what upstream sent
+const STATUS_FOR_CODE: Record<Exclude<UpstreamErrorCode, 'UPSTREAM_REJECTED'>, number> = {
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 502,
+  UPSTREAM_NETWORK_ERROR: 502,
+  UPSTREAM_CIRCUIT_OPEN: 503,
+  UPSTREAM_INVALID_RESPONSE: 502,
+};
+
+// Upstream 4xx responses keep their status, except 401/403: those mean the proxy's API key was
+// refused, and passed through they would look like an expired dashboard session to the client
+const rejectedStatus = (status?: number) =>
+  status === undefined || status === 401 || status === 403 ? 502 : status;
+
+export class UpstreamError extends Error {
+  readonly code: UpstreamErrorCode;
+  readonly status: number;
+  // Seconds the client should wait before trying again, when known
+  readonly retryAfter?: number;
+  readonly details?: string;
+
+  constructor(code: UpstreamErrorCode, message: string, options: { status?: number; retryAfter?: number; details?: string } = {}) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.code = code;
+    this.status = code === 'UPSTREAM_REJECTED' ? rejectedStatus(options.status) : STATUS_FOR_CODE[code];
+    this.retryAfter = options.retryAfter;
+    this.details = options.details;
+  }
+}
+
+const TIMEOUT_MS = Number(Netlify.env.get("UPSTREAM_TIMEOUT_MS")) || 10_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// 0 is a valid setting (no retries), so this can't use the `|| default` shorthand
+const readMaxRetries = (): number => {
+  const configured = Netlify.env.get("UPSTREAM_MAX_RETRIES");
+  if (configured === undefined || configured.trim() === '') return DEFAULT_MAX_RETRIES;
+  const retries = Number(configured);
+  if (Number.isInteger(retries) && retries >= 0) return retries;
+  console.warn(`Invalid UPSTREAM_MAX_RETRIES '${configured}', expected a whole number; using ${DEFAULT_MAX_RETRIES}`);
+  return DEFAULT_MAX_RETRIES;
+};
+
+const MAX_RETRIES = readMaxRetries();
+const BASE_DELAY_MS = 300;
+const MAX_DELAY_MS = 4_000;
+// Longer Retry-After values are passed to the client instead of holding the function open
+const MAX_RETRY_AFTER_WAIT_MS = 5_000;
+
+const BREAKER_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+
+// Module scope, so the breaker state survives across invocations of a warm function
+const breaker = {
+  consecutiveFailures: 0,
+  openUntil: 0,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// "Full jitter": a random delay up to the exponential cap for this attempt
+const backoffDelay = (attempt: number) =>
+  Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+const recordSuccess = () => {
+  breaker.consecutiveFailures = 0;
+  breaker.openUntil = 0;
+};
+
+const recordFailure = () => {
+  breaker.consecutiveFailures += 1;
+  if (breaker.consecutiveFailures >= BREAKER_THRESHOLD) {
+    breaker.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    console.error(`Upstream circuit opened after ${breaker.consecutiveFailures} consecutive failures`);
+  }
+};
+
+const attemptFetch = async (url: string, apiKey: string): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    return await fetch(url, {
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new UpstreamError('UPSTREAM_TIMEOUT', `Netlify API did not respond within ${TIMEOUT_MS}ms`);
+    }
+    throw new UpstreamError('UPSTREAM_NETWORK_ERROR', `Network error contacting Netlify API: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// GETs `url` and returns the parsed JSON body, or throws an UpstreamError
+export const fetchUpstreamJson = async (url: string, apiKey: string): Promise<unknown> => {
+  if (breaker.openUntil > Date.now()) {
+    throw new UpstreamError('UPSTREAM_CIRCUIT_OPEN', 'Netlify API is failing; requests are paused', {
+      retryAfter: Math.ceil((breaker.openUntil - Date.now()) / 1000),
+    });
+  }
+
+  let lastError: UpstreamError | undefined;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (attempt > 0) {
+      console.warn(`Retrying Netlify API request (attempt ${attempt + 1}/${MAX_RETRIES + 1}) after:`, lastError?.message);
+    }
+
+    let response: Response;
+    try {
+      response = await attemptFetch(url, apiKey);
+    } catch (error) {
+      lastError = error as UpstreamError;
+      if (attempt < MAX_RETRIES) await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (response.ok) {
+      recordSuccess();
+      try {
+        return await response.json();
+      } catch (error) {
+        // A 200 with a body that isn't JSON is upstream misbehaving, not a bug in the proxy
+        throw new UpstreamError('UPSTREAM_INVALID_RESPONSE', 'Netlify API returned a response that is not valid JSON', {
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const details = await response.text();
+    console.error("Netlify API Error (via proxy):", response.status, response.statusText, details);
+
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      lastError = new UpstreamError('UPSTREAM_RATE_LIMITED', 'Netlify API rate limit reached', { retryAfter, details });
+      const waitMs = retryAfter !== undefined ? retryAfter * 1000 : backoffDelay(attempt);
+      if (attempt >= MAX_RETRIES || waitMs > MAX_RETRY_AFTER_WAIT_MS) throw lastError;
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (response.status >= 500) {
+      lastError = new UpstreamError('UPSTREAM_UNAVAILABLE', `Netlify API Error: ${response.statusText}`, { details });
+      if (attempt < MAX_RETRIES) await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    // Other 4xx responses won't change on retry and say nothing about upstream health
+    throw new UpstreamError('UPSTREAM_REJECTED', `Netlify API Error: ${response.statusText}`, { status: response.status, details });
+  }
+
+  recordFailure();
+  throw lastError ?? new UpstreamError('UPSTREAM_UNAVAILABLE', 'Netlify API request failed');
+};
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { Alert } from "./alerts";
+
+// Where alerts are delivered. ALERT_WEBHOOKS is a JSON array like
+//   [{"url":"https://hooks.slack.com/services/...","format":"slack"},{"url":"https://example.com/hook"}]
+// `json` (the default) posts the full alert object, `slack` posts a Slack-compatible `{ text }`.
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const webhooksSchema = z.array(z.object({
+  url: z.string().url(),
+  format: z.enum(['json', 'slack']).default('json'),
+}));
+
+export type Webhook = z.infer<typeof webhooksSchema>[number];
+
+const loadWebhooks = (): Webhook[] => {
+  const webhooksJson = Netlify.env.get("ALERT_WEBHOOKS");
+  if (!webhooksJson) return [];
+  try {
+    const parsed = webhooksSchema.safeParse(JSON.parse(webhooksJson));
+    if (parsed.success) return parsed.data;
+    console.error("ALERT_WEBHOOKS is invalid:", parsed.error.issues);
+  } catch (error) {
+    console.error("ALERT_WEBHOOKS is not valid JSON:", error);
+  }
+  return [];
+};
+
+export const ALERT_WEBHOOKS: Webhook[] = loadWebhooks();
+
+const payloadFor = (webhook: Webhook, alert: Alert): unknown => {
+  if (webhook.format === 'slack') {
+    return { text: `:rotating_light: *${alert.ruleId}*: ${alert.message}` };
+  }
+  const { site, ...rest } = alert;
+  return { alert: { ...rest, site: { id: site.id, name: site.name }, firedAt: new Date(alert.firedAt).toISOString() } };
+};
+
+// Resolves to true when the webhook accepted the alert; failures are logged, not thrown
+export const postAlert = async (webhook: Webhook, alert: Alert): Promise<boolean> => {
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payloadFor(webhook, alert)),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`Alert webhook ${new URL(webhook.url).host} answered ${response.status}:`, await response.text());
+    }
+    return response.ok;
+  } catch (error) {
+    console.error(`Alert webhook ${new URL(webhook.url).host} failed:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+};
@@ -0,0 +1,15 @@
+// First day of the week for calendar ranges (0 = Sunday, 1 = Monday, ...), shared by every
+// function that resolves `this-week` / `prev-week`.
+
+const DEFAULT_WEEK_START = 1;
+
+const readWeekStartsOn = (): number => {
+  const configured = Netlify.env.get("WEEK_STARTS_ON");
+  if (configured === undefined || configured.trim() === '') return DEFAULT_WEEK_START;
+  const day = Number(configured);
+  if (Number.isInteger(day) && day >= 0 && day <= 6) return day;
+  console.warn(`Invalid WEEK_STARTS_ON '${configured}', expected 0-6; weeks start on Monday`);
+  return DEFAULT_WEEK_START;
+};
+
+export const WEEK_STARTS_ON = readWeekStartsOn();
@@ -0,0 +1,9 @@
+import { vi } from "vitest";
+
+// Env vars come from process.env, with storage kept in memory unless a test says otherwise
+process.env.STORAGE_DRIVER ??= 'memory';
+process.env.ANALYTICS_PROVIDER ??= 'demo';
+
+vi.stubGlobal('Netlify', {
+  env: { get: (name: string) => process.env[name] },
+});
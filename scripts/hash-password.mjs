@@ -0,0 +1,15 @@
+// Prints a DASHBOARD_PASSWORD_HASH value for the given password.
+// usage: npm run hash-password -- 'my password'
+import { randomBytes, scryptSync } from "node:crypto";
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error("usage: npm run hash-password -- '<password>'");
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+
+console.log(`scrypt:${salt.toString("hex")}:${key.toString("hex")}`);
@@ -0,0 +1,86 @@
+// Uploads CSVs exported from the Netlify Analytics UI into the dashboard's archive.
+// usage: npm run import-csv -- [--dry-run] [--site <id>] [--url <dashboard url>]
+//                              [--kind <kind>] [--date YYYY-MM-DD] <file.csv>...
+// --date attributes files without a date column (e.g. top pages for one day) to that day.
+// Logs in with DASHBOARD_PASSWORD (or --password) when the dashboard is password protected.
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    site: { type: "string" },
+    url: { type: "string", default: process.env.IMPORT_URL || "http://localhost:8888" },
+    kind: { type: "string" },
+    date: { type: "string" },
+    password: { type: "string", default: process.env.DASHBOARD_PASSWORD },
+  },
+});
+
+if (positionals.length === 0) {
+  console.error("usage: npm run import-csv -- [--dry-run] [--site <id>] [--url <url>] [--kind <kind>] [--date YYYY-MM-DD] <file.csv>...");
+  process.exit(1);
+}
+
+const baseUrl = values.url.replace(/\/$/, "");
+
+const login = async () => {
+  const session = await fetch(`${baseUrl}/.netlify/functions/auth`).then((res) => res.json());
+  if (!session.authRequired) return undefined;
+  if (!values.password) {
+    console.error("The dashboard is password protected: set DASHBOARD_PASSWORD or pass --password");
+    process.exit(1);
+  }
+  const res = await fetch(`${baseUrl}/.netlify/functions/auth`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ password: values.password }),
+  });
+  if (!res.ok) {
+    console.error("Login failed:", (await res.json()).error);
+    process.exit(1);
+  }
+  return res.headers.getSetCookie().map((cookie) => cookie.split(";")[0]).join("; ");
+};
+
+const files = await Promise.all(positionals.map(async (file) => ({
+  name: path.basename(file),
+  content: await readFile(file, "utf8"),
+  kind: values.kind,
+  date: values.date,
+})));
+
+const cookie = await login();
+const res = await fetch(`${baseUrl}/.netlify/functions/import`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+  body: JSON.stringify({ siteId: values.site, dryRun: values["dry-run"], files }),
+});
+const report = await res.json();
+
+if (!res.ok) {
+  console.error(`Import failed (${res.status}):`, report.error);
+  process.exit(1);
+}
+
+console.log(report.dryRun ? "Dry run, nothing was written.\n" : "");
+for (const file of report.files) {
+  console.log(`${file.name}: ${file.kind ?? "unrecognised"}, ${file.rows} rows over ${file.days} days`);
+}
+console.log("");
+for (const day of report.days) {
+  const kept = day.kept.length > 0 ? ` (kept snapshot ${day.kept.join(", ")})` : "";
+  console.log(`${day.date}  ${day.action.padEnd(9)} ${day.fields.join(", ")}${kept}`);
+}
+if (report.issues.length > 0) {
+  console.log("");
+  for (const issue of report.issues) {
+    console.log(`${issue.severity}: ${issue.file}:${issue.line} ${issue.message}`);
+  }
+}
+
+const { created, updated, unchanged, rejectedRows, duplicateRows } = report.totals;
+console.log(`\n${created} days created, ${updated} updated, ${unchanged} unchanged, ${rejectedRows} rows rejected, ${duplicateRows} duplicates skipped`);
+process.exit(report.issues.some((issue) => issue.severity === "error") ? 1 : 0);
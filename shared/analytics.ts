@@ -0,0 +1,326 @@
+import { z } from "zod";
+
+// The contract between the proxy (netlify/) and the dashboard (src/): endpoint names,
+// range expressions, error codes and the zod schemas for every response shape.
+// Response schemas describe the upstream Netlify Analytics payloads, which the proxy
+// validates and passes on unchanged.
+
+export const ENDPOINT_PATHS = [
+  '/pageviews',
+  '/visitors',
+  '/bandwidth',
+  '/ranking/pages',
+  '/ranking/sources',
+  '/ranking/countries',
+  '/ranking/not_found',
+] as const;
+
+export type Endpoint = typeof ENDPOINT_PATHS[number];
+
+export type RankingEndpoint = Extract<Endpoint, `/ranking/${string}`>;
+
+// Short names for the ranking endpoints, used by the archive and the dashboard's table views
+export const RANKINGS = {
+  pages: '/ranking/pages',
+  sources: '/ranking/sources',
+  countries: '/ranking/countries',
+  not_found: '/ranking/not_found',
+} as const satisfies Record<string, RankingEndpoint>;
+
+export type RankingName = keyof typeof RANKINGS;
+
+// Upstream refuses larger `limit` values on ranking endpoints
+export const MAX_RANKING_LIMIT = 100;
+
+// Rolling windows ending now (`14d`, `3m`, ...) or calendar periods resolved by the
+// proxy in the client's timezone
+export const CALENDAR_RANGES = [
+  'today',
+  'yesterday',
+  'this-week',
+  'prev-week',
+  'mtd',
+  'prev-month',
+  'qtd',
+  'prev-quarter',
+  'ytd',
+  'prev-year',
+] as const;
+
+export type CalendarRange = typeof CALENDAR_RANGES[number];
+export type RollingRange = `${number}${'d' | 'w' | 'm' | 'y'}`;
+export type RangeExpression = RollingRange | CalendarRange;
+
+// Explicit range in epoch milliseconds; the proxy clamps it to the retention window
+export interface CustomTimeRange {
+  from: number;
+  to: number;
+}
+
+// Bucket sizes the proxy can resample /pageviews and /visitors into, aligned to the
+// client's timezone. Hourly points are only kept for short ranges.
+export const GRANULARITIES = ['hourly', 'daily', 'weekly', 'monthly'] as const;
+
+export type Granularity = typeof GRANULARITIES[number];
+
+export const MAX_HOURLY_RANGE_DAYS = 31;
+
+// Earlier period a response can be compared against: the one just before it (same length, or
+// the previous calendar period) or the same dates a year earlier
+export const COMPARISONS = ['previous', 'year'] as const;
+
+export type Comparison = typeof COMPARISONS[number];
+
+const compiles = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A rule is a glob on the page path (`*` matches anything, slashes included; `?` one
+// character) or `{ "regex": "..." }`, tested against the path without its query string
+export const contentGroupRuleSchema = z.union([
+  z.string().startsWith('/', "globs must start with '/'"),
+  z.object({ regex: z.string().min(1).refine(compiles, 'not a valid regular expression') }).strict(),
+]);
+
+export type ContentGroupRule = z.infer<typeof contentGroupRuleSchema>;
+
+// A named section of the site, e.g. { "name": "Blog", "rules": ["/blog/*"] }
+export const contentGroupSchema = z.object({
+  name: z.string().trim().min(1),
+  rules: z.array(contentGroupRuleSchema).min(1),
+}).strict();
+
+export type ContentGroup = z.infer<typeof contentGroupSchema>;
+
+export const contentGroupsSchema = z.array(contentGroupSchema).refine(
+  (groups) => new Set(groups.map((group) => group.name)).size === groups.length,
+  { message: 'group names must be unique' },
+);
+
+// Clean-ups for page and 404 paths, always applied in this order:
+//   strip_query     /pricing?ref=x#plans -> /pricing
+//   collapse_index  /about/index.html    -> /about/
+//   trailing_slash  /about/              -> /about
+//   lowercase       /About               -> /about
+export const PATH_NORMALIZATION_STEPS = ['strip_query', 'collapse_index', 'trailing_slash', 'lowercase'] as const;
+
+export type PathNormalizationStep = typeof PATH_NORMALIZATION_STEPS[number];
+
+export const pathNormalizationSchema = z.array(z.enum(PATH_NORMALIZATION_STEPS));
+
+export const siteSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // Public hostname, so visits referred by the site itself can be told apart from real sources
+  domain: z.string().min(1).optional(),
+  // Checked in order; a page belongs to the first group with a matching rule
+  contentGroups: contentGroupsSchema.optional(),
+  // Steps used when merging path variants; every step when left out, none when empty
+  pathNormalization: pathNormalizationSchema.optional(),
+});
+
+export type Site = z.infer<typeof siteSchema>;
+
+// Timeseries rows arrive as [timestamp, value] pairs, one per bucket
+export const timeSeriesRowSchema = z.tuple([z.number(), z.number()]);
+
+export type TimeSeriesRow = z.infer<typeof timeSeriesRowSchema>;
+
+export const timeSeriesResponseSchema = z.object({
+  data: z.array(timeSeriesRowSchema),
+});
+
+export const rankingRowSchema = z.object({
+  resource: z.string(),
+  count: z.number(),
+  // Only present on /ranking/countries, where `resource` is the country code
+  country_name: z.string().optional(),
+});
+
+export type RankingRow = z.infer<typeof rankingRowSchema>;
+
+export const rankingResponseSchema = z.object({
+  data: z.array(rankingRowSchema),
+});
+
+export const bandwidthRecordSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  siteBandwidth: z.number(),
+  // Missing when a range is answered entirely from the archive
+  accountBandwidth: z.number().optional(),
+});
+
+export type BandwidthRecord = z.infer<typeof bandwidthRecordSchema>;
+
+export const bandwidthResponseSchema = z.object({
+  data: z.array(bandwidthRecordSchema),
+});
+
+export const RESPONSE_SCHEMAS = {
+  '/pageviews': timeSeriesResponseSchema,
+  '/visitors': timeSeriesResponseSchema,
+  '/bandwidth': bandwidthResponseSchema,
+  '/ranking/pages': rankingResponseSchema,
+  '/ranking/sources': rankingResponseSchema,
+  '/ranking/countries': rankingResponseSchema,
+  '/ranking/not_found': rankingResponseSchema,
+} as const satisfies Record<Endpoint, z.ZodTypeAny>;
+
+export type EndpointResponse<E extends Endpoint = Endpoint> = z.infer<typeof RESPONSE_SCHEMAS[E]>;
+
+export type TimeSeriesResponse = EndpointResponse<'/pageviews'>;
+export type RankingResponse = EndpointResponse<RankingEndpoint>;
+export type BandwidthResponse = EndpointResponse<'/bandwidth'>;
+
+// Range of the comparison period attached as `previous` next to `data` when a request sets
+// `compare`. `error` explains an empty `data` (e.g. the period is past retention).
+export const comparisonRangeSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  error: z.string().optional(),
+});
+
+export type ComparisonRange = z.infer<typeof comparisonRangeSchema>;
+
+export type ComparisonPayload<E extends Endpoint = Endpoint> = EndpointResponse<E> & ComparisonRange;
+
+// A published production deploy, as the deploys function returns it for chart markers
+export const deploySchema = z.object({
+  id: z.string(),
+  publishedAt: z.number(),
+  branch: z.string().nullable(),
+  // First line of the commit message, as Netlify shows it in the deploy list
+  commitMessage: z.string().nullable(),
+  commitRef: z.string().nullable(),
+  commitUrl: z.string().nullable(),
+});
+
+export type Deploy = z.infer<typeof deploySchema>;
+
+export const deploysResponseSchema = z.object({
+  data: z.array(deploySchema),
+});
+
+export type DeploysResponse = z.infer<typeof deploysResponseSchema>;
+
+const CIVIL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// YYYY-MM-DD that is also a real calendar day
+const civilDateField = z.string()
+  .regex(CIVIL_DATE, 'must look like YYYY-MM-DD')
+  .refine((date) => new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) === date, 'is not a calendar date');
+
+export const ANNOTATION_COLORS = ['#F59E0B', '#3B82F6', '#10B981', '#EF4444', '#A855F7', '#64748B'] as const;
+
+// What a client sends to create or update a chart annotation. Dates are calendar days, so a
+// note reads the same in every timezone; `endDate` turns it into an inclusive range.
+export const annotationInputSchema = z.object({
+  date: civilDateField,
+  endDate: civilDateField.optional(),
+  label: z.string().trim().min(1).max(200),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'must be a hex colour like #F59E0B').default(ANNOTATION_COLORS[0]),
+}).strict().refine(
+  (input) => input.endDate === undefined || input.endDate >= input.date,
+  { message: "'endDate' may not be before 'date'", path: ['endDate'] },
+);
+
+export type AnnotationInput = z.input<typeof annotationInputSchema>;
+
+export const annotationSchema = z.object({
+  id: z.string(),
+  siteId: z.string(),
+  date: z.string(),
+  endDate: z.string().optional(),
+  label: z.string(),
+  color: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type Annotation = z.infer<typeof annotationSchema>;
+
+// Where a 404 path stands; paths nobody has looked at yet count as 'new'
+export const TRIAGE_STATUSES = ['new', 'investigating', 'fixed', 'ignored'] as const;
+
+export type TriageStatus = typeof TRIAGE_STATUSES[number];
+
+// Paths still needing attention
+export const UNRESOLVED_TRIAGE_STATUSES: readonly TriageStatus[] = ['new', 'investigating'];
+
+// Body of PUT /.netlify/functions/triage; an empty note clears it
+export const triageInputSchema = z.object({
+  path: z.string().min(1).max(2048),
+  status: z.enum(TRIAGE_STATUSES),
+  note: z.string().trim().max(500).optional().transform((note) => note || undefined),
+}).strict();
+
+export type TriageInput = z.input<typeof triageInputSchema>;
+
+export const triageEntrySchema = z.object({
+  path: z.string(),
+  status: z.enum(TRIAGE_STATUSES),
+  note: z.string().optional(),
+  updatedAt: z.number(),
+});
+
+export type TriageEntry = z.infer<typeof triageEntrySchema>;
+
+// Upper bound on the 404 paths one review remembers
+export const MAX_REVIEWED_PATHS = 1000;
+
+// Body of POST /.netlify/functions/triage: the 404 paths on screen when the list was marked reviewed
+export const triageReviewInputSchema = z.object({
+  paths: z.array(z.string().min(1).max(2048)).max(MAX_REVIEWED_PATHS),
+}).strict();
+
+export const triageReviewSchema = z.object({
+  reviewedAt: z.number(),
+  paths: z.array(z.string()),
+});
+
+export type TriageReview = z.infer<typeof triageReviewSchema>;
+
+export const triageStateSchema = z.object({
+  entries: z.array(triageEntrySchema),
+  // null until the list has been reviewed once
+  review: triageReviewSchema.nullable(),
+});
+
+export type TriageState = z.infer<typeof triageStateSchema>;
+
+// Error codes the proxy attaches to failed requests (and failed batch entries)
+export const PROXY_ERROR_CODES = [
+  'UPSTREAM_TIMEOUT',
+  'UPSTREAM_RATE_LIMITED',
+  'UPSTREAM_UNAVAILABLE',
+  'UPSTREAM_NETWORK_ERROR',
+  'UPSTREAM_REJECTED',
+  'UPSTREAM_CIRCUIT_OPEN',
+  'UPSTREAM_INVALID_RESPONSE',
+  'INTERNAL_ERROR',
+  'UNAUTHORIZED',
+] as const;
+
+export type ProxyErrorCode = typeof PROXY_ERROR_CODES[number];
+
+export interface ProxyErrorBody {
+  error?: string;
+  code?: ProxyErrorCode;
+  status?: number;
+  details?: string;
+  retryAfter?: number;
+}
+
+export type BatchEntry<E extends Endpoint = Endpoint> =
+  | { ok: true; status: 200; cache: 'HIT' | 'MISS'; data: EndpointResponse<E>; previous?: ComparisonPayload<E> }
+  | ({ ok: false; status: number } & ProxyErrorBody);
+
+export interface BatchResponse {
+  results: Record<string, BatchEntry>;
+}
@@ -3,7 +3,11 @@ import { Toaster } from "sonner";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Analytics from "./pages/Analytics";
+import Login from "./pages/Login";
+import Portfolio from "./pages/Portfolio";
+import Ranking from "./pages/Ranking";
 import NotFound from "./pages/NotFound";
+import RequireAuth from "./components/RequireAuth";
 
 const queryClient = new QueryClient();
 
@@ -12,8 +16,11 @@ const App = () => (
     <Toaster position="top-right" theme="dark" />
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Analytics />} />
-        <Route path="/analytics" element={<Analytics />} />
+        <Route path="/login" element={<Login />} />
+        <Route path="/" element={<RequireAuth><Analytics /></RequireAuth>} />
+        <Route path="/analytics" element={<RequireAuth><Analytics /></RequireAuth>} />
+        <Route path="/portfolio" element={<RequireAuth><Portfolio /></RequireAuth>} />
+        <Route path="/ranking/:name" element={<RequireAuth><Ranking /></RequireAuth>} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </BrowserRouter>
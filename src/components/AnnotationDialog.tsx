@@ -0,0 +1,172 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Check } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { AnnotationDraft } from "@/lib/annotations";
+import {
+  ANNOTATION_COLORS,
+  AnnotationInput,
+  createAnnotation,
+  deleteAnnotation,
+  updateAnnotation,
+} from "@/services/annotationsApi";
+
+interface AnnotationDialogProps {
+  siteId: string;
+  // null while closed
+  draft: AnnotationDraft | null;
+  onClose: () => void;
+}
+
+// Adds a note to the charts, or edits / deletes the one in `draft.annotation`
+const AnnotationDialog = ({ siteId, draft, onClose }: AnnotationDialogProps) => {
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState<string>(ANNOTATION_COLORS[0]);
+
+  // Every opening starts from the draft, not from whatever was typed last time
+  useEffect(() => {
+    if (!draft) return;
+    setDate(draft.annotation?.date ?? draft.date);
+    setEndDate(draft.annotation?.endDate ?? draft.endDate ?? '');
+    setLabel(draft.annotation?.label ?? '');
+    setColor(draft.annotation?.color ?? ANNOTATION_COLORS[0]);
+  }, [draft]);
+
+  const existing = draft?.annotation;
+
+  const onSuccess = (message: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['annotations', siteId] });
+    toast.success(message);
+    onClose();
+  };
+  const onError = (error: Error) => toast.error(`Failed saving note: ${error.message}`);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: AnnotationInput) => existing
+      ? updateAnnotation(siteId, existing.id, input)
+      : createAnnotation(siteId, input),
+    onSuccess: onSuccess(existing ? 'Note updated' : 'Note added'),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteAnnotation(siteId, existing.id),
+    onSuccess: onSuccess('Note deleted'),
+    onError,
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!date || !label.trim()) return;
+    saveMutation.mutate({
+      date,
+      endDate: endDate && endDate !== date ? endDate : undefined,
+      label: label.trim(),
+      color,
+    });
+  };
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="dark bg-slate-900 border-white/10 text-white sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{existing ? 'Edit note' : 'Add note'}</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Marks a campaign, outage or mention on the page views and visitors charts.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="annotation-label" className="text-gray-300">Note</Label>
+            <Input
+              id="annotation-label"
+              autoFocus
+              maxLength={200}
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              placeholder="Spring campaign launched"
+              className="bg-slate-800 border-white/10 text-white"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="annotation-date" className="text-gray-300">Date</Label>
+              <Input
+                id="annotation-date"
+                type="date"
+                required
+                value={date}
+                onChange={(event) => setDate(event.target.value)}
+                className="bg-slate-800 border-white/10 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="annotation-end-date" className="text-gray-300">Until (optional)</Label>
+              <Input
+                id="annotation-end-date"
+                type="date"
+                min={date}
+                value={endDate}
+                onChange={(event) => setEndDate(event.target.value)}
+                className="bg-slate-800 border-white/10 text-white"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-300">Colour</Label>
+            <div className="flex gap-2">
+              {ANNOTATION_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  aria-label={`Colour ${option}`}
+                  aria-pressed={color === option}
+                  className={cn("h-7 w-7 rounded-full flex items-center justify-center", color === option && "ring-2 ring-white/70")}
+                  style={{ backgroundColor: option }}
+                >
+                  {color === option && <Check className="h-4 w-4 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {existing ? (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => deleteMutation.mutate()}
+                disabled={busy}
+                className="text-red-400 hover:bg-red-900/40 hover:text-red-300"
+              >
+                Delete
+              </Button>
+            ) : <span />}
+            <Button type="submit" disabled={busy || !date || !label.trim()} className="bg-purple-600 hover:bg-purple-700">
+              {saveMutation.isPending ? 'Saving…' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AnnotationDialog;
@@ -0,0 +1,36 @@
+import { Annotation } from "@/services/annotationsApi";
+import { describeAnnotation } from "@/lib/annotations";
+
+interface AnnotationMarkerLabelProps {
+  // Filled in by recharts when used as a ReferenceLine / ReferenceArea label
+  viewBox?: { x: number; y: number; height: number };
+  annotation: Annotation;
+  onSelect: (annotation: Annotation) => void;
+}
+
+const MAX_LABEL_LENGTH = 18;
+
+// Flag at the top of a note's line or area; clicking it opens the note for editing
+const AnnotationMarkerLabel = ({ viewBox, annotation, onSelect }: AnnotationMarkerLabelProps) => {
+  if (!viewBox) return null;
+  const { x, y } = viewBox;
+  const text = annotation.label.length > MAX_LABEL_LENGTH
+    ? `${annotation.label.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : annotation.label;
+  return (
+    <g
+      className="cursor-pointer"
+      onClick={(event) => {
+        // Keeps the chart's own click (which adds a note) from firing as well
+        event.stopPropagation();
+        onSelect(annotation);
+      }}
+    >
+      <title>{describeAnnotation(annotation)}</title>
+      <rect x={x} y={y + 14} width={8} height={8} rx={2} fill={annotation.color} />
+      <text x={x + 11} y={y + 21} fontSize={10} fill={annotation.color}>{text}</text>
+    </g>
+  );
+};
+
+export default AnnotationMarkerLabel;
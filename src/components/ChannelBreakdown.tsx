@@ -0,0 +1,60 @@
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts";
+import DeltaBadge from "@/components/DeltaBadge";
+import { CHANNEL_COLORS, channelBreakdown, NormalizedSource } from "@/lib/referrers";
+
+interface ChannelBreakdownProps {
+  sources: NormalizedSource[];
+  // Same sources for the comparison period; leave out when no comparison is shown
+  previousSources?: NormalizedSource[];
+}
+
+// Referrals per channel as a donut, with counts, shares and changes listed beside it
+const ChannelBreakdown = ({ sources, previousSources }: ChannelBreakdownProps) => {
+  const channels = channelBreakdown(sources);
+  const previous = previousSources && new Map(channelBreakdown(previousSources).map(({ channel, count }) => [channel, count]));
+  const total = channels.reduce((sum, { count }) => sum + count, 0);
+
+  return (
+    <div className="h-full flex items-center gap-4">
+      <div className="h-full w-1/2">
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie
+              data={channels.filter(({ count }) => count > 0)}
+              dataKey="count"
+              nameKey="channel"
+              innerRadius="55%"
+              outerRadius="85%"
+              stroke="none"
+              isAnimationActive={false}
+            >
+              {channels.filter(({ count }) => count > 0).map(({ channel }) => (
+                <Cell key={channel} fill={CHANNEL_COLORS[channel]} />
+              ))}
+            </Pie>
+            <Tooltip contentStyle={{ backgroundColor: '#1A202C', border: 'none' }} itemStyle={{ color: '#E2E8F0' }} />
+          </PieChart>
+        </ResponsiveContainer>
+      </div>
+      <ul className="w-1/2 space-y-2 text-sm">
+        {channels.map(({ channel, count }) => (
+          <li key={channel} className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2 text-gray-300 truncate">
+              <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: CHANNEL_COLORS[channel] }} />
+              {channel}
+            </span>
+            <span className="flex items-baseline gap-2 flex-shrink-0">
+              {previous && count > 0 && <DeltaBadge current={count} previous={previous.get(channel)} />}
+              <span className="text-gray-200 tabular-nums">{count.toLocaleString()}</span>
+              <span className="w-10 text-right text-xs text-gray-500 tabular-nums">
+                {total > 0 ? `${Math.round((count / total) * 100)}%` : '–'}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChannelBreakdown;
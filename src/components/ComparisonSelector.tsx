@@ -0,0 +1,42 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { comparisonOptions } from "@/lib/comparison";
+import { Comparison } from "@/services/netlifyApi";
+
+interface ComparisonSelectorProps {
+  value?: Comparison;
+  onChange: (comparison: Comparison | undefined) => void;
+}
+
+const OFF = 'off';
+
+// Picks the earlier period every card is compared against, or none
+const ComparisonSelector = ({ value, onChange }: ComparisonSelectorProps) => (
+  <Select
+    value={value ?? OFF}
+    onValueChange={(next) => onChange(next === OFF ? undefined : next as Comparison)}
+  >
+    <SelectTrigger
+      className={cn(
+        "h-8 w-[200px] border-none text-sm",
+        value ? "bg-slate-700 text-gray-200" : "bg-slate-800 text-gray-400 hover:text-gray-200"
+      )}
+    >
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="dark bg-slate-900 border-white/10 text-white">
+      <SelectItem value={OFF}>No comparison</SelectItem>
+      {comparisonOptions.map(option => (
+        <SelectItem key={option.value} value={option.value}>vs {option.label.toLowerCase()}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default ComparisonSelector;
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { ChevronRight } from "lucide-react";
+import DeltaBadge from "@/components/DeltaBadge";
+import { cn } from "@/lib/utils";
+import { GroupTotal } from "@/lib/contentGroups";
+
+interface ContentGroupBreakdownProps {
+  groups: GroupTotal[];
+  // Group totals for the comparison period; leave out when no comparison is shown
+  previousGroups?: GroupTotal[];
+}
+
+// Views per content group; picking a group lists the paths that make it up
+const ContentGroupBreakdown = ({ groups, previousGroups }: ContentGroupBreakdownProps) => {
+  const [selected, setSelected] = useState<string | undefined>();
+  const previous = previousGroups && new Map(previousGroups.map(({ name, count }) => [name, count]));
+  const total = groups.reduce((sum, { count }) => sum + count, 0);
+  const current = groups.find(group => group.name === selected) ?? groups[0];
+
+  return (
+    <div className="h-full grid grid-cols-1 md:grid-cols-2 gap-6">
+      <ul className="space-y-2 overflow-y-auto pr-2">
+        {groups.map(group => {
+          const share = total > 0 ? (group.count / total) * 100 : 0;
+          return (
+            <li key={group.name}>
+              <button
+                type="button"
+                onClick={() => setSelected(group.name)}
+                aria-pressed={group === current}
+                className={cn(
+                  "w-full p-2 rounded text-left text-sm transition-colors",
+                  group === current ? "bg-purple-600/20" : "bg-white/5 hover:bg-white/10"
+                )}
+              >
+                <span className="flex justify-between items-center">
+                  <span className="flex items-center text-gray-200 truncate">
+                    <ChevronRight className={cn("mr-1 h-3 w-3 flex-shrink-0 text-gray-500", group === current && "text-purple-300")} />
+                    {group.name}
+                  </span>
+                  <span className="ml-4 flex-shrink-0 flex items-baseline gap-2">
+                    {previous && group.count > 0 && <DeltaBadge current={group.count} previous={previous.get(group.name)} />}
+                    <span className="text-purple-400 font-medium tabular-nums">{group.count.toLocaleString()}</span>
+                    <span className="w-10 text-right text-xs text-gray-500 tabular-nums">{Math.round(share)}%</span>
+                  </span>
+                </span>
+                <span className="mt-2 block h-1 rounded bg-white/10">
+                  <span className="block h-1 rounded bg-purple-500" style={{ width: `${share}%` }} />
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="overflow-y-auto pr-2">
+        {current && (
+          <>
+            <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">
+              {current.name} · {current.pages.length.toLocaleString()} {current.pages.length === 1 ? 'page' : 'pages'}
+            </p>
+            {current.pages.length > 0 ? (
+              <ul className="space-y-1">
+                {current.pages.map(page => (
+                  <li key={page.resource} className="flex justify-between items-center px-2 py-1 text-sm">
+                    <span className="truncate text-gray-300" title={page.resource}>{page.resource}</span>
+                    <span className="ml-4 flex-shrink-0 text-gray-400 tabular-nums">{page.count.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No views in this range</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContentGroupBreakdown;
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { endOfDay, startOfDay } from "date-fns";
+import { CalendarDays } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { CustomTimeRange, describeTimeRange } from "@/services/netlifyApi";
+
+interface DateRangePickerProps {
+  value?: CustomTimeRange;
+  onChange: (range: CustomTimeRange) => void;
+}
+
+const toDateRange = (value?: CustomTimeRange): DateRange | undefined =>
+  value ? { from: new Date(value.from), to: new Date(value.to) } : undefined;
+
+const DateRangePicker = ({ value, onChange }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(toDateRange(value));
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Start each edit from the applied range rather than a half-finished selection
+    if (nextOpen) setDraft(toDateRange(value));
+    setOpen(nextOpen);
+  };
+
+  const applyRange = () => {
+    if (!draft?.from) return;
+    // Whole local days, inclusive of the last selected day
+    onChange({
+      from: startOfDay(draft.from).getTime(),
+      to: endOfDay(draft.to ?? draft.from).getTime(),
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "px-3 py-1 rounded-md transition-colors text-sm",
+            value
+              ? "bg-purple-600 text-white hover:bg-purple-700"
+              : "text-gray-400 hover:bg-slate-700 hover:text-gray-200"
+          )}
+        >
+          <CalendarDays className="mr-1 h-4 w-4" />
+          {value ? describeTimeRange(value) : 'Custom'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="dark w-auto p-0 bg-slate-900 border-white/10 text-white">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={draft?.from}
+          selected={draft}
+          onSelect={setDraft}
+          disabled={{ after: new Date() }}
+        />
+        <div className="flex justify-end gap-2 border-t border-white/10 p-3">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)} className="text-gray-400 hover:bg-slate-700 hover:text-gray-200">
+            Cancel
+          </Button>
+          <Button size="sm" onClick={applyRange} disabled={!draft?.from} className="bg-purple-600 text-white hover:bg-purple-700">
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+import { delta, formatDelta } from "@/lib/comparison";
+
+interface DeltaBadgeProps {
+  current: number;
+  // undefined when the resource didn't appear in the earlier period at all
+  previous?: number;
+  // For metrics where growth is bad, such as 404 hits
+  invert?: boolean;
+  className?: string;
+}
+
+// Change against the comparison period, coloured by whether it went the good way
+const DeltaBadge = ({ current, previous, invert = false, className }: DeltaBadgeProps) => {
+  if (previous === undefined || (previous === 0 && current > 0)) {
+    return <span className={cn("text-xs text-sky-400", className)}>new</span>;
+  }
+  const change = delta(current, previous);
+  const improved = invert ? change.absolute < 0 : change.absolute > 0;
+  return (
+    <span
+      className={cn(
+        "text-xs tabular-nums",
+        change.absolute === 0 ? "text-gray-500" : improved ? "text-emerald-400" : "text-red-400",
+        className
+      )}
+      title={`${previous.toLocaleString()} in the comparison period`}
+    >
+      {formatDelta(change)}
+    </span>
+  );
+};
+
+export default DeltaBadge;
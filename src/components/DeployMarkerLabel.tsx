@@ -0,0 +1,26 @@
+import { Deploy } from "@/services/netlifyApi";
+import { describeDeploy } from "@/lib/deploys";
+
+interface DeployMarkerLabelProps {
+  // Filled in by recharts when used as a ReferenceLine label
+  viewBox?: { x: number; y: number; height: number };
+  deploys: Deploy[];
+}
+
+// Dot on top of a deploy reference line; hovering anywhere along the line lists its deploys
+const DeployMarkerLabel = ({ viewBox, deploys }: DeployMarkerLabelProps) => {
+  if (!viewBox) return null;
+  const { x, y, height } = viewBox;
+  return (
+    <g className="cursor-help">
+      <title>{deploys.map(describeDeploy).join('\n\n')}</title>
+      <rect x={x - 4} y={y} width={8} height={height} fill="transparent" />
+      <circle cx={x} cy={y + 5} r={5} fill="#10B981" />
+      {deploys.length > 1 && (
+        <text x={x} y={y + 8} textAnchor="middle" fontSize={8} fill="#0F172A">{deploys.length}</text>
+      )}
+    </g>
+  );
+};
+
+export default DeployMarkerLabel;
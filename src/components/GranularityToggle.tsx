@@ -0,0 +1,40 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { granularityOptions, isHourlyAvailable } from "@/lib/granularity";
+import { Granularity, TimeRange } from "@/services/netlifyApi";
+
+interface GranularityToggleProps {
+  value: Granularity;
+  onChange: (granularity: Granularity) => void;
+  timeRange: TimeRange;
+}
+
+// Bucket size picker for timeseries cards; hourly is disabled for long ranges
+const GranularityToggle = ({ value, onChange, timeRange }: GranularityToggleProps) => {
+  const hourlyAvailable = isHourlyAvailable(timeRange);
+
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={value}
+      // Radix reports '' when the active item is clicked again; keep the current choice
+      onValueChange={(next) => next && onChange(next as Granularity)}
+      className="bg-slate-800 p-1 rounded-lg"
+    >
+      {granularityOptions.map(option => (
+        <ToggleGroupItem
+          key={option.value}
+          value={option.value}
+          disabled={option.value === 'hourly' && !hourlyAvailable}
+          title={option.value === 'hourly' && !hourlyAvailable ? 'Hourly detail is only available for ranges up to a month' : option.label}
+          aria-label={option.label}
+          className="h-7 w-7 px-0 text-xs text-gray-400 hover:bg-slate-700 hover:text-gray-200 data-[state=on]:bg-purple-600 data-[state=on]:text-white"
+        >
+          {option.short}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+};
+
+export default GranularityToggle;
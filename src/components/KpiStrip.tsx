@@ -0,0 +1,57 @@
+import { Line, LineChart, ResponsiveContainer } from "recharts";
+import { cn } from "@/lib/utils";
+import { delta } from "@/lib/comparison";
+import { Kpi } from "@/lib/kpis";
+
+interface KpiStripProps {
+  kpis: Kpi[];
+  // e.g. 'previous period', shown in each delta's tooltip
+  comparisonLabel: string;
+}
+
+const Sparkline = ({ values }: { values: number[] }) => (
+  <div className="h-8">
+    {values.length > 1 && (
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={values.map((value, index) => ({ index, value }))}>
+          <Line type="monotone" dataKey="value" stroke="#8B5CF6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    )}
+  </div>
+);
+
+const KpiDelta = ({ kpi, comparisonLabel }: { kpi: Kpi; comparisonLabel: string }) => {
+  if (kpi.value === null || kpi.previous === null || kpi.previous === undefined) {
+    return <span className="text-xs text-gray-500">no comparison</span>;
+  }
+  const { absolute, percent } = delta(kpi.value, kpi.previous);
+  const improved = kpi.invert ? absolute < 0 : absolute > 0;
+  return (
+    <span
+      className={cn("text-xs tabular-nums", absolute === 0 ? "text-gray-500" : improved ? "text-emerald-400" : "text-red-400")}
+      title={`vs ${comparisonLabel}`}
+    >
+      {percent === null ? 'new' : `${percent > 0 ? '+' : percent < 0 ? '−' : '±'}${Math.abs(percent).toFixed(1)}%`}
+    </span>
+  );
+};
+
+// Headline numbers above the card grid, each with its trend and change against the comparison period
+const KpiStrip = ({ kpis, comparisonLabel }: KpiStripProps) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-4">
+    {kpis.map(kpi => (
+      <div key={kpi.key} className="rounded-lg bg-white/5 backdrop-blur-lg border border-white/10 p-4 space-y-1">
+        <p className="text-xs text-gray-400">{kpi.label}</p>
+        <p className="text-2xl font-bold text-gray-100 tabular-nums">{kpi.display}</p>
+        <div className="flex justify-between items-baseline gap-2">
+          <KpiDelta kpi={kpi} comparisonLabel={comparisonLabel} />
+          {kpi.detail && <span className="truncate text-[10px] text-gray-500" title={kpi.detail}>{kpi.detail}</span>}
+        </div>
+        <Sparkline values={kpi.trend} />
+      </div>
+    ))}
+  </div>
+);
+
+export default KpiStrip;
@@ -0,0 +1,22 @@
+import { Toggle } from "@/components/ui/toggle";
+
+interface NormalizePathsToggleProps {
+  pressed: boolean;
+  onPressedChange: (pressed: boolean) => void;
+}
+
+// Switches a path list between merged variants (`/about`, `/About/`, `/about/index.html` as one row) and raw rows
+const NormalizePathsToggle = ({ pressed, onPressedChange }: NormalizePathsToggleProps) => (
+  <Toggle
+    size="sm"
+    pressed={pressed}
+    onPressedChange={onPressedChange}
+    aria-label="Merge path variants"
+    title={pressed ? 'Showing merged paths, click for raw rows' : 'Showing raw rows, click to merge path variants'}
+    className="h-8 px-2 text-xs text-gray-400 hover:bg-slate-700 hover:text-gray-200 data-[state=on]:bg-purple-600/30 data-[state=on]:text-purple-300"
+  >
+    {pressed ? 'Normalized' : 'Raw'}
+  </Toggle>
+);
+
+export default NormalizePathsToggle;
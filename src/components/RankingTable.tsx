@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import DeltaBadge from "@/components/DeltaBadge";
+import { cn } from "@/lib/utils";
+import { previousCounts } from "@/lib/comparison";
+import { RankingRow } from "@/services/netlifyApi";
+
+type SortKey = 'resource' | 'count';
+
+interface RankingTableProps {
+  rows: RankingRow[];
+  resourceLabel: string;
+  countLabel: string;
+  // Applied to the resource column, e.g. to show '(direct)' as 'Direct'
+  formatResource?: (row: RankingRow) => string;
+  search?: string;
+  pageSize?: number;
+  accentClassName?: string;
+  // Same ranking over the comparison period; adds a change column when given
+  previousRows?: RankingRow[];
+  // Colour growth as bad, e.g. for 404s
+  invertDelta?: boolean;
+}
+
+const share = (value: number, total: number) => (total > 0 ? (value / total) * 100 : 0);
+
+// Pages through a ranking with sortable columns; share is of every row passed in, not just the matches
+const RankingTable = ({
+  rows,
+  resourceLabel,
+  countLabel,
+  formatResource = (row) => row.resource,
+  search = '',
+  pageSize = 25,
+  accentClassName = 'text-purple-400',
+  previousRows,
+  invertDelta = false,
+}: RankingTableProps) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'count', descending: true });
+  const [page, setPage] = useState(0);
+
+  // New search or a refetched list starts from the top again
+  useEffect(() => setPage(0), [search, rows]);
+
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+  // Position in the original ranking, kept while searching or re-sorting
+  const positions = new Map(rows.map((row, index) => [row.resource, index + 1]));
+  const previous = previousCounts(previousRows);
+  const columnCount = previous ? 5 : 4;
+
+  const query = search.trim().toLowerCase();
+  const matching = query
+    ? rows.filter(row => row.resource.toLowerCase().includes(query) || formatResource(row).toLowerCase().includes(query))
+    : rows;
+
+  const sorted = [...matching].sort((a, b) => {
+    const order = sort.key === 'count'
+      ? a.count - b.count || b.resource.localeCompare(a.resource)
+      : formatResource(a).localeCompare(formatResource(b));
+    return sort.descending ? -order : order;
+  });
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = sorted.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => current.key === key
+      ? { key, descending: !current.descending }
+      : { key, descending: key === 'count' });
+    setPage(0);
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (sort.key !== key) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />;
+    return sort.descending ? <ArrowDown className="ml-1 h-3 w-3" /> : <ArrowUp className="ml-1 h-3 w-3" />;
+  };
+
+  const goTo = (next: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(next, 0), pageCount - 1));
+  };
+
+  // First, last and the pages around the current one
+  const pageNumbers = Array.from({ length: pageCount }, (_, index) => index)
+    .filter(index => index === 0 || index === pageCount - 1 || Math.abs(index - currentPage) <= 1);
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="w-12 text-gray-400">#</TableHead>
+            <TableHead className="text-gray-400">
+              <button type="button" onClick={() => toggleSort('resource')} className="inline-flex items-center hover:text-gray-200">
+                {resourceLabel}{sortIcon('resource')}
+              </button>
+            </TableHead>
+            <TableHead className="text-right text-gray-400">
+              <button type="button" onClick={() => toggleSort('count')} className="inline-flex items-center hover:text-gray-200">
+                {countLabel}{sortIcon('count')}
+              </button>
+            </TableHead>
+            {previous && <TableHead className="text-right text-gray-400 whitespace-nowrap">Change</TableHead>}
+            <TableHead className="text-right text-gray-400">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.length > 0 ? visible.map(row => (
+            <TableRow key={row.resource} className="border-white/10 hover:bg-white/5">
+              <TableCell className="text-gray-500">{positions.get(row.resource)}</TableCell>
+              <TableCell className="max-w-0 w-full truncate text-gray-300" title={row.resource}>{formatResource(row)}</TableCell>
+              <TableCell className={cn("text-right font-medium", accentClassName)}>{row.count.toLocaleString()}</TableCell>
+              {previous && (
+                <TableCell className="text-right whitespace-nowrap">
+                  <DeltaBadge current={row.count} previous={previous.get(row.resource)} invert={invertDelta} />
+                </TableCell>
+              )}
+              <TableCell className="text-right text-gray-400">{share(row.count, total).toFixed(1)}%</TableCell>
+            </TableRow>
+          )) : (
+            <TableRow className="hover:bg-transparent">
+              <TableCell colSpan={columnCount} className="h-24 text-center text-gray-500">
+                {query ? `Nothing matches "${search.trim()}"` : 'No data available'}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={goTo(currentPage - 1)}
+                className={cn("hover:bg-slate-700 hover:text-gray-200", currentPage === 0 && "pointer-events-none opacity-50")}
+              />
+            </PaginationItem>
+            {pageNumbers.map((index, position) => (
+              <PaginationItem key={index}>
+                {position > 0 && index - pageNumbers[position - 1] > 1 && <span className="px-2 text-gray-500">…</span>}
+                <PaginationLink
+                  href="#"
+                  isActive={index === currentPage}
+                  onClick={goTo(index)}
+                  className={cn(
+                    "border-white/10 hover:bg-slate-700 hover:text-gray-200",
+                    index === currentPage ? "bg-purple-600 text-white" : "bg-transparent text-gray-400"
+                  )}
+                >
+                  {index + 1}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={goTo(currentPage + 1)}
+                className={cn("hover:bg-slate-700 hover:text-gray-200", currentPage === pageCount - 1 && "pointer-events-none opacity-50")}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default RankingTable;
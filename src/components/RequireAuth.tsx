@@ -0,0 +1,49 @@
+import { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Navigate, useLocation } from "react-router-dom";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getSession } from "@/services/authApi";
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Renders its children only once the session endpoint confirms access
+const RequireAuth = ({ children }: RequireAuthProps) => {
+  const location = useLocation();
+  const { data: session, isPending, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ['session'],
+    queryFn: getSession,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  if (isPending) {
+    return <div className="min-h-screen bg-gradient-to-br from-gray-900 via-slate-900 to-slate-800" />;
+  }
+
+  // Only a definite "not logged in" goes to the login page; keep the query so ?site=… survives
+  if (session?.authenticated === false) {
+    return <Navigate to={`/login?next=${encodeURIComponent(location.pathname + location.search)}`} replace />;
+  }
+
+  // The auth function is unreachable or misconfigured: logging in wouldn't help
+  if (isError && !session) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-slate-900 to-slate-800 text-white flex items-center justify-center p-8">
+        <div className="max-w-md text-center space-y-4">
+          <AlertCircle className="mx-auto h-8 w-8 text-red-500" />
+          <p className="text-gray-300">{error.message}</p>
+          <Button onClick={() => refetch()} disabled={isFetching} className="bg-purple-600 hover:bg-purple-700">
+            {isFetching ? 'Retrying…' : 'Try again'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
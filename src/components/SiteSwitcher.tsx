@@ -0,0 +1,42 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Site } from "@/services/netlifyApi";
+
+interface SiteSwitcherProps {
+  sites: Site[];
+  value?: Site;
+  onChange: (siteId: string) => void;
+}
+
+const titleClassName = "text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent";
+
+// Page title that doubles as a site picker when more than one site is configured
+const SiteSwitcher = ({ sites, value, onChange }: SiteSwitcherProps) => {
+  if (sites.length <= 1) {
+    return <h1 className={titleClassName}>{value?.name ?? "Site Analytics"}</h1>;
+  }
+
+  return (
+    <Select value={value?.id} onValueChange={onChange}>
+      <SelectTrigger className="h-auto w-auto gap-3 border-none bg-transparent p-0 text-left focus:ring-0 focus:ring-offset-0 [&>svg]:h-6 [&>svg]:w-6 [&>svg]:text-pink-500 [&>svg]:opacity-100">
+        <span className={titleClassName}>
+          <SelectValue placeholder="Select a site" />
+        </span>
+      </SelectTrigger>
+      <SelectContent className="dark bg-slate-900 border-white/10 text-white">
+        {sites.map(site => (
+          <SelectItem key={site.id} value={site.id}>
+            {site.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default SiteSwitcher;
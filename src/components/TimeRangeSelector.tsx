@@ -0,0 +1,59 @@
+import DateRangePicker from "@/components/DateRangePicker";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { timeRangeGroups } from "@/lib/timeRanges";
+import { isCustomTimeRange, RangeExpression, TimeRange } from "@/services/netlifyApi";
+
+interface TimeRangeSelectorProps {
+  value: TimeRange;
+  onChange: (timeRange: TimeRange) => void;
+}
+
+// Grouped preset menu plus the custom date range picker
+const TimeRangeSelector = ({ value, onChange }: TimeRangeSelectorProps) => (
+  <div className="flex gap-2 bg-slate-800 p-1 rounded-lg">
+    <Select
+      value={isCustomTimeRange(value) ? '' : value}
+      onValueChange={(next) => onChange(next as RangeExpression)}
+    >
+      <SelectTrigger
+        className={cn(
+          "h-8 w-[170px] border-none text-sm",
+          isCustomTimeRange(value)
+            ? "bg-transparent text-gray-400 hover:bg-slate-700 hover:text-gray-200"
+            : "bg-purple-600 text-white hover:bg-purple-700"
+        )}
+      >
+        <SelectValue placeholder="Preset range" />
+      </SelectTrigger>
+      <SelectContent className="dark bg-slate-900 border-white/10 text-white">
+        {timeRangeGroups.map((group, index) => (
+          <SelectGroup key={group.label}>
+            {index > 0 && <SelectSeparator />}
+            <SelectLabel className="text-gray-400">{group.label}</SelectLabel>
+            {group.options.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+    <DateRangePicker
+      value={isCustomTimeRange(value) ? value : undefined}
+      onChange={onChange}
+    />
+  </div>
+);
+
+export default TimeRangeSelector;
@@ -0,0 +1,106 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { TRIAGE_STATUS_LABELS, TriagedRow } from "@/lib/triage";
+import { setTriage, TRIAGE_STATUSES, TriageInput, TriageStatus } from "@/services/triageApi";
+
+interface TriageDialogProps {
+  siteId: string;
+  // null while closed
+  row: TriagedRow | null;
+  onClose: () => void;
+}
+
+// Sets the status and note of one 404 path
+const TriageDialog = ({ siteId, row, onClose }: TriageDialogProps) => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<TriageStatus>('new');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (!row) return;
+    setStatus(row.status);
+    setNote(row.note ?? '');
+  }, [row]);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: TriageInput) => setTriage(siteId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['triage', siteId] });
+      toast.success('404 updated');
+      onClose();
+    },
+    onError: (error: Error) => toast.error(`Failed saving 404 status: ${error.message}`),
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!row) return;
+    saveMutation.mutate({ path: row.resource, status, note: note.trim() });
+  };
+
+  return (
+    <Dialog open={row !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="dark bg-slate-900 border-white/10 text-white sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="break-all">{row?.resource}</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              {row ? `${row.count.toLocaleString()} hits in this period. ` : ''}Ignored paths are hidden from the 404 list.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label className="text-gray-300">Status</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {TRIAGE_STATUSES.map(option => (
+                <Button
+                  key={option}
+                  type="button"
+                  variant="outline"
+                  aria-pressed={status === option}
+                  onClick={() => setStatus(option)}
+                  className={cn(
+                    "border-white/10 bg-slate-800 text-gray-300 hover:bg-slate-700 hover:text-white",
+                    status === option && "border-purple-400 bg-purple-600/30 text-purple-200"
+                  )}
+                >
+                  {TRIAGE_STATUS_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="triage-note" className="text-gray-300">Note (optional)</Label>
+            <Textarea
+              id="triage-note"
+              maxLength={500}
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="Redirect added in #123"
+              className="bg-slate-800 border-white/10 text-white"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saveMutation.isPending} className="bg-purple-600 hover:bg-purple-700">
+              {saveMutation.isPending ? 'Saving…' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TriageDialog;
@@ -0,0 +1,69 @@
+import { format } from "date-fns";
+import { DataPoint } from "@/services/netlifyApi";
+import { Annotation } from "@/services/annotationsApi";
+import { bucketContaining } from "@/lib/granularity";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day of a timestamp, as annotations store it
+export const toCivilDate = (timestamp: number): string => format(timestamp, 'yyyy-MM-dd');
+
+// Local midnight at the start of a YYYY-MM-DD day
+export const startOfCivilDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+// Local time span an annotation covers, end exclusive
+const spanOf = (annotation: Annotation) => ({
+  from: startOfCivilDate(annotation.date),
+  to: startOfCivilDate(annotation.endDate ?? annotation.date) + DAY_MS,
+});
+
+export const describeAnnotation = (annotation: Annotation): string =>
+  annotation.endDate && annotation.endDate !== annotation.date
+    ? `${annotation.label} (${annotation.date} – ${annotation.endDate})`
+    : `${annotation.label} (${annotation.date})`;
+
+export interface AnnotationMarker {
+  annotation: Annotation;
+  x1: number;
+  // Last bucket of a range; unset for single-day notes that fit in one bucket
+  x2?: number;
+}
+
+// Notes that overlap the charted buckets, pinned to them and clipped to the chart's ends
+export const annotationMarkers = (points: DataPoint[], annotations: Annotation[]): AnnotationMarker[] => {
+  if (points.length === 0) return [];
+  const first = points[0].timestamp;
+  const end = points.length > 1
+    ? points[points.length - 1].timestamp + (points[points.length - 1].timestamp - points[points.length - 2].timestamp)
+    : first + DAY_MS;
+  return annotations.flatMap((annotation) => {
+    const span = spanOf(annotation);
+    if (span.to <= first || span.from >= end) return [];
+    const x1 = bucketContaining(points, Math.max(span.from, first)) as number;
+    const x2 = bucketContaining(points, Math.min(span.to, end) - 1) as number;
+    return [{ annotation, x1, x2: x2 !== x1 ? x2 : undefined }];
+  });
+};
+
+// Timeseries rows with the notes overlapping each bucket, for CSV export
+export const withAnnotationLabels = (points: DataPoint[], annotations: Annotation[]) =>
+  points.map((point, index) => {
+    const bucketEnd = points[index + 1]?.timestamp ?? point.timestamp + (index > 0 ? point.timestamp - points[index - 1].timestamp : DAY_MS);
+    const labels = annotations
+      .filter((annotation) => {
+        const span = spanOf(annotation);
+        return span.from < bucketEnd && span.to > point.timestamp;
+      })
+      .map((annotation) => annotation.label);
+    return { ...point, annotations: labels.join('; ') };
+  });
+
+// What the note dialog opens with: an existing note to edit, or the days a new one should cover
+export interface AnnotationDraft {
+  annotation?: Annotation;
+  date: string;
+  endDate?: string;
+}
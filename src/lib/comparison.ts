@@ -0,0 +1,39 @@
+import { Comparison, DataPoint, RankingRow } from "@/services/netlifyApi";
+
+export const comparisonOptions: { label: string; value: Comparison }[] = [
+  { label: 'Previous period', value: 'previous' },
+  { label: 'Same period last year', value: 'year' },
+];
+
+export interface Delta {
+  absolute: number;
+  // null when there is nothing to compare against, e.g. a page that had no views before
+  percent: number | null;
+}
+
+export const delta = (current: number, previous: number): Delta => ({
+  absolute: current - previous,
+  percent: previous > 0 ? ((current - previous) / previous) * 100 : null,
+});
+
+export interface OverlayPoint extends DataPoint {
+  previous?: number;
+  previousTimestamp?: number;
+}
+
+// Lines the earlier period up bucket by bucket so both series share the current x axis
+export const overlayPrevious = (current: DataPoint[], previous?: DataPoint[]): OverlayPoint[] =>
+  current.map((point, index) => {
+    const earlier = previous?.[index];
+    return earlier ? { ...point, previous: earlier.value, previousTimestamp: earlier.timestamp } : point;
+  });
+
+// Counts from the earlier period by resource; resources missing from it count as 0
+export const previousCounts = (previous?: RankingRow[]): Map<string, number> | undefined =>
+  previous && new Map(previous.map(row => [row.resource, row.count]));
+
+export const formatDelta = ({ absolute, percent }: Delta): string => {
+  const sign = absolute > 0 ? '+' : absolute < 0 ? '−' : '±';
+  const amount = `${sign}${Math.abs(absolute).toLocaleString()}`;
+  return percent === null ? amount : `${amount} (${sign}${Math.abs(percent).toFixed(1)}%)`;
+};
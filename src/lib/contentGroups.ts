@@ -0,0 +1,43 @@
+import { ContentGroup, ContentGroupRule, RankingRow } from "@/services/netlifyApi";
+
+// Pages matching none of the configured groups
+export const UNGROUPED = 'Ungrouped';
+
+const globToRegExp = (glob: string) => new RegExp(`^${glob
+  .split('')
+  .map((char) => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+  .join('')}$`);
+
+const compileRule = (rule: ContentGroupRule) => typeof rule === 'string' ? globToRegExp(rule) : new RegExp(rule.regex);
+
+// Rules look at the path alone, so `/pricing?ref=x` still counts towards its group
+const pathOf = (resource: string) => resource.split(/[?#]/)[0];
+
+export interface GroupTotal {
+  name: string;
+  count: number;
+  // Member paths, largest first
+  pages: RankingRow[];
+}
+
+// Sums page counts per group. Every configured group is listed, empty ones included, largest
+// first, followed by the pages no rule matched.
+export const groupPages = (rows: RankingRow[], groups: ContentGroup[]): GroupTotal[] => {
+  const compiled = groups.map((group) => ({ name: group.name, patterns: group.rules.map(compileRule) }));
+  const totals = new Map<string, GroupTotal>(
+    [...groups.map((group) => group.name), UNGROUPED].map((name) => [name, { name, count: 0, pages: [] }])
+  );
+  for (const row of [...rows].sort((a, b) => b.count - a.count)) {
+    const path = pathOf(row.resource);
+    const group = compiled.find(({ patterns }) => patterns.some((pattern) => pattern.test(path)));
+    const total = totals.get(group?.name ?? UNGROUPED) as GroupTotal;
+    total.count += row.count;
+    total.pages.push(row);
+  }
+  const ungrouped = totals.get(UNGROUPED) as GroupTotal;
+  totals.delete(UNGROUPED);
+  return [
+    ...[...totals.values()].sort((a, b) => b.count - a.count),
+    ...(ungrouped.count > 0 ? [ungrouped] : []),
+  ];
+};
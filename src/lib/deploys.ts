@@ -0,0 +1,24 @@
+import { DataPoint, Deploy } from "@/services/netlifyApi";
+import { bucketContaining } from "@/lib/granularity";
+
+export interface DeployMarker {
+  // Start of the chart bucket the deploys landed in
+  timestamp: number;
+  deploys: Deploy[];
+}
+
+// Deploys grouped under the bucket they were published in
+export const deployMarkers = (points: DataPoint[], deploys: Deploy[]): DeployMarker[] => {
+  const markers = new Map<number, Deploy[]>();
+  for (const deploy of deploys) {
+    const bucket = bucketContaining(points, deploy.publishedAt);
+    if (bucket === undefined) continue;
+    markers.set(bucket, [...(markers.get(bucket) ?? []), deploy]);
+  }
+  return [...markers].map(([timestamp, grouped]) => ({ timestamp, deploys: grouped }));
+};
+
+export const describeDeploy = ({ publishedAt, branch, commitRef, commitMessage }: Deploy): string => {
+  const ref = commitRef ? ` @ ${commitRef.slice(0, 7)}` : '';
+  return `${new Date(publishedAt).toLocaleString()} · ${branch ?? 'unknown branch'}${ref}\n${commitMessage ?? 'No commit message'}`;
+};
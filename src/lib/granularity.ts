@@ -0,0 +1,68 @@
+import { DataPoint, Granularity, isCustomTimeRange, MAX_HOURLY_RANGE_DAYS, TimeRange } from "@/services/netlifyApi";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const granularityOptions: { label: string; short: string; value: Granularity }[] = [
+  { label: 'Hourly', short: 'H', value: 'hourly' },
+  { label: 'Daily', short: 'D', value: 'daily' },
+  { label: 'Weekly', short: 'W', value: 'weekly' },
+  { label: 'Monthly', short: 'M', value: 'monthly' },
+];
+
+const ROLLING_UNIT_DAYS = { d: 1, w: 7, m: 30, y: 365 } as const;
+
+// Longest each calendar preset can be
+const CALENDAR_RANGE_DAYS: Record<string, number> = {
+  today: 1,
+  yesterday: 1,
+  'this-week': 7,
+  'prev-week': 7,
+  mtd: 31,
+  'prev-month': 31,
+  qtd: 92,
+  'prev-quarter': 92,
+  ytd: 366,
+  'prev-year': 366,
+};
+
+// Upper bound on the number of days a range covers
+const maxRangeDays = (timeRange: TimeRange): number => {
+  if (isCustomTimeRange(timeRange)) return (timeRange.to - timeRange.from) / DAY_MS;
+  const rolling = /^(\d+)([dwmy])$/.exec(timeRange);
+  if (rolling) return Number(rolling[1]) * ROLLING_UNIT_DAYS[rolling[2] as keyof typeof ROLLING_UNIT_DAYS];
+  return CALENDAR_RANGE_DAYS[timeRange] ?? Infinity;
+};
+
+// The proxy only serves hourly points for short ranges
+export const isHourlyAvailable = (timeRange: TimeRange): boolean =>
+  maxRangeDays(timeRange) <= MAX_HOURLY_RANGE_DAYS;
+
+// Granularity to actually request: hourly falls back to daily once the range gets too long
+export const effectiveGranularity = (granularity: Granularity, timeRange: TimeRange): Granularity =>
+  granularity === 'hourly' && !isHourlyAvailable(timeRange) ? 'daily' : granularity;
+
+// Axis and tooltip label for the bucket starting at `timestamp`
+export const formatBucket = (timestamp: number, granularity: Granularity): string => {
+  const date = new Date(timestamp);
+  switch (granularity) {
+    case 'hourly':
+      return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' });
+    case 'weekly':
+      return `Week of ${date.toLocaleDateString()}`;
+    case 'monthly':
+      return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+    default:
+      return date.toLocaleDateString();
+  }
+};
+
+// Start of the chart bucket `timestamp` falls in; undefined before the first one. The x axis is
+// categorical, so anything drawn on it (deploys, notes) has to sit on one of these.
+export const bucketContaining = (points: DataPoint[], timestamp: number): number | undefined => {
+  let bucket: number | undefined;
+  for (const point of points) {
+    if (point.timestamp > timestamp) break;
+    bucket = point.timestamp;
+  }
+  return bucket;
+};
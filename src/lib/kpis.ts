@@ -0,0 +1,138 @@
+import { DashboardData, DataPoint, RankingRow } from "@/services/netlifyApi";
+import { formatBytes } from "@/lib/utils";
+
+export interface Kpi {
+  key: string;
+  label: string;
+  value: number | null;
+  // Same figure over the comparison period, when it could be worked out
+  previous?: number | null;
+  display: string;
+  detail?: string;
+  trend: number[];
+  // Growth is bad news, e.g. 404 hits
+  invert?: boolean;
+}
+
+const sum = (points: DataPoint[]) => points.reduce((total, { value }) => total + value, 0);
+
+const sumCounts = (rows: RankingRow[]) => rows.reduce((total, { count }) => total + count, 0);
+
+const peak = (points: DataPoint[]): DataPoint | undefined =>
+  points.reduce<DataPoint | undefined>((best, point) => (!best || point.value > best.value ? point : best), undefined);
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+// Views per visitor for each point both series share
+const perPoint = (views: DataPoint[], visitors: DataPoint[]): number[] =>
+  views.map((point, index) => ratio(point.value, visitors[index]?.value ?? 0) ?? 0);
+
+const formatCount = (value: number | null) => value === null ? '–' : Math.round(value).toLocaleString();
+
+interface Period {
+  pageViews?: DataPoint[];
+  visitors?: DataPoint[];
+  bandwidth?: number;
+  notFound?: number;
+}
+
+const figures = ({ pageViews = [], visitors = [], bandwidth, notFound }: Period) => {
+  const totalViews = sum(pageViews);
+  const totalVisitors = sum(visitors);
+  return {
+    pageViews: pageViews.length > 0 ? totalViews : null,
+    visitors: visitors.length > 0 ? totalVisitors : null,
+    viewsPerVisitor: ratio(totalViews, totalVisitors),
+    dailyAverage: pageViews.length > 0 ? totalViews / pageViews.length : null,
+    peak: peak(pageViews),
+    bandwidth: bandwidth ?? null,
+    notFound: notFound ?? null,
+  };
+};
+
+// Headline numbers for the summary strip, from the daily points and lists the dashboard batch already holds
+export const computeKpis = (dashboard: DashboardData): Kpi[] => {
+  const { pageViews, visitors, bandwidth, notFound } = dashboard;
+  const current = figures({
+    pageViews: pageViews.error ? undefined : pageViews.data,
+    visitors: visitors.error ? undefined : visitors.data,
+    bandwidth: bandwidth.error ? undefined : bandwidth.data[0]?.siteBandwidth,
+    notFound: notFound.error ? undefined : sumCounts(notFound.data),
+  });
+  const usable = <T extends { error?: string }>(previous?: T) => (previous && !previous.error ? previous : undefined);
+  const before = figures({
+    pageViews: usable(pageViews.previous)?.data,
+    visitors: usable(visitors.previous)?.data,
+    bandwidth: usable(bandwidth.previous)?.data[0]?.siteBandwidth,
+    notFound: usable(notFound.previous) && sumCounts(notFound.previous.data),
+  });
+
+  const viewsTrend = pageViews.data.map(point => point.value);
+  // Bandwidth and 404s come as period totals, so their trend is just the earlier period to this one
+  const totalsTrend = (now: number | null, then: number | null) => now !== null && then !== null ? [then, now] : [];
+
+  return [
+    {
+      key: 'pageviews',
+      label: 'Page views',
+      value: current.pageViews,
+      previous: before.pageViews,
+      display: formatCount(current.pageViews),
+      trend: viewsTrend,
+    },
+    {
+      key: 'visitors',
+      label: 'Visitors',
+      value: current.visitors,
+      previous: before.visitors,
+      display: formatCount(current.visitors),
+      detail: 'Sum of daily unique visitors',
+      trend: visitors.data.map(point => point.value),
+    },
+    {
+      key: 'views-per-visitor',
+      label: 'Views per visitor',
+      value: current.viewsPerVisitor,
+      previous: before.viewsPerVisitor,
+      display: current.viewsPerVisitor === null ? '–' : current.viewsPerVisitor.toFixed(2),
+      trend: perPoint(pageViews.data, visitors.data),
+    },
+    {
+      key: 'daily-average',
+      label: 'Daily average',
+      value: current.dailyAverage,
+      previous: before.dailyAverage,
+      display: formatCount(current.dailyAverage),
+      detail: 'Page views per day',
+      trend: viewsTrend,
+    },
+    {
+      key: 'peak-day',
+      label: 'Peak day',
+      value: current.peak?.value ?? null,
+      previous: before.peak?.value ?? null,
+      display: formatCount(current.peak?.value ?? null),
+      detail: current.peak ? new Date(current.peak.timestamp).toLocaleDateString() : undefined,
+      trend: viewsTrend,
+    },
+    {
+      key: 'bandwidth',
+      label: 'Bandwidth',
+      value: current.bandwidth,
+      previous: before.bandwidth,
+      display: current.bandwidth === null ? '–' : formatBytes(current.bandwidth),
+      trend: totalsTrend(current.bandwidth, before.bandwidth),
+    },
+    {
+      key: 'not-found',
+      label: '404 hits',
+      value: current.notFound,
+      previous: before.notFound,
+      display: formatCount(current.notFound),
+      detail: `Top ${notFound.data.length} paths`,
+      trend: totalsTrend(current.notFound, before.notFound),
+      invert: true,
+    },
+  ];
+};
@@ -0,0 +1,35 @@
+import { Compared, PATH_NORMALIZATION_STEPS, PathNormalizationStep, RankingResponse, RankingRow } from "@/services/netlifyApi";
+
+const STEPS: Record<PathNormalizationStep, (path: string) => string> = {
+  strip_query: (path) => path.split(/[?#]/)[0] || '/',
+  collapse_index: (path) => path.replace(/\/index\.html?$/i, '/'),
+  trailing_slash: (path) => path.length > 1 ? path.replace(/\/+$/, '') || '/' : path,
+  lowercase: (path) => path.toLowerCase(),
+};
+
+// Runs the configured steps in their fixed order, see PATH_NORMALIZATION_STEPS
+export const normalizePath = (path: string, steps: readonly PathNormalizationStep[]): string =>
+  PATH_NORMALIZATION_STEPS.filter((step) => steps.includes(step)).reduce((result, step) => STEPS[step](result), path);
+
+// One row per normalized path with the counts of its variants added up, largest first
+export const normalizePaths = (rows: RankingRow[], steps: readonly PathNormalizationStep[]): RankingRow[] => {
+  if (steps.length === 0) return rows;
+  const merged = new Map<string, number>();
+  for (const row of rows) {
+    const path = normalizePath(row.resource, steps);
+    merged.set(path, (merged.get(path) ?? 0) + row.count);
+  }
+  return [...merged]
+    .map(([resource, count]) => ({ resource, count }))
+    .sort((a, b) => b.count - a.count || a.resource.localeCompare(b.resource));
+};
+
+// Same ranking with both periods normalized, so deltas compare like with like
+export const normalizeRanking = <T extends Compared<RankingResponse>>(
+  ranking: T | undefined,
+  steps: readonly PathNormalizationStep[]
+): T | undefined => ranking && {
+  ...ranking,
+  data: normalizePaths(ranking.data ?? [], steps),
+  previous: ranking.previous && { ...ranking.previous, data: normalizePaths(ranking.previous.data ?? [], steps) },
+};
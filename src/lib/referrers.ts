@@ -0,0 +1,137 @@
+import { RankingRow } from "@/services/netlifyApi";
+
+// Turns the raw referrer hostnames Netlify reports (`www.google.com`, `google.co.uk`, `t.co`,
+// `l.facebook.com`, `(direct)`, ...) into one canonical source each, and sorts sources into
+// marketing channels. Rules are checked in order, so specific hosts (mail.google.com,
+// gemini.google.com) come before the broad ones (google.*). Anything unmatched is a Referral.
+
+export const CHANNELS = ['Search', 'Social', 'Direct', 'Email', 'Referral', 'AI assistants'] as const;
+
+export type Channel = typeof CHANNELS[number];
+
+export const CHANNEL_COLORS: Record<Channel, string> = {
+  Search: '#3B82F6',
+  Social: '#EC4899',
+  Direct: '#64748B',
+  Email: '#F59E0B',
+  Referral: '#8B5CF6',
+  'AI assistants': '#10B981',
+};
+
+interface SourceRule {
+  source: string;
+  channel: Channel;
+  // Tested against the hostname, lowercased and without `www.`
+  host: RegExp;
+}
+
+const SOURCE_RULES: SourceRule[] = [
+  // AI assistants
+  { source: 'ChatGPT', channel: 'AI assistants', host: /^(chatgpt\.com|chat\.openai\.com)$/ },
+  { source: 'Perplexity', channel: 'AI assistants', host: /^perplexity\.ai$/ },
+  { source: 'Claude', channel: 'AI assistants', host: /^claude\.ai$/ },
+  { source: 'Gemini', channel: 'AI assistants', host: /^gemini\.google\.com$/ },
+  { source: 'Copilot', channel: 'AI assistants', host: /^copilot\.microsoft\.com$/ },
+  { source: 'You.com', channel: 'AI assistants', host: /^you\.com$/ },
+  // Email, before the search engines that share their domains
+  { source: 'Gmail', channel: 'Email', host: /^mail\.google\.com$/ },
+  { source: 'Outlook', channel: 'Email', host: /^outlook\.(live|office|office365)\.com$/ },
+  { source: 'Yahoo Mail', channel: 'Email', host: /^mail\.yahoo\.com$/ },
+  { source: 'Proton Mail', channel: 'Email', host: /^mail\.proton\.me$/ },
+  // Search
+  { source: 'Google', channel: 'Search', host: /^google\.[a-z]{2,3}(\.[a-z]{2})?$/ },
+  { source: 'Bing', channel: 'Search', host: /^(cn\.)?bing\.com$/ },
+  { source: 'DuckDuckGo', channel: 'Search', host: /^duckduckgo\.com$/ },
+  { source: 'Yahoo', channel: 'Search', host: /^([a-z]{2}\.)?search\.yahoo\.com$|^yahoo\.com$/ },
+  { source: 'Yandex', channel: 'Search', host: /^yandex\.[a-z]{2,3}$/ },
+  { source: 'Baidu', channel: 'Search', host: /^baidu\.com$/ },
+  { source: 'Ecosia', channel: 'Search', host: /^ecosia\.org$/ },
+  { source: 'Brave Search', channel: 'Search', host: /^search\.brave\.com$/ },
+  { source: 'Startpage', channel: 'Search', host: /^startpage\.com$/ },
+  // Social
+  { source: 'X (Twitter)', channel: 'Social', host: /^(t\.co|(mobile\.)?twitter\.com|x\.com)$/ },
+  { source: 'Facebook', channel: 'Social', host: /^([a-z]+\.)?facebook\.com$|^fb\.me$/ },
+  { source: 'Instagram', channel: 'Social', host: /^(l\.)?instagram\.com$/ },
+  { source: 'LinkedIn', channel: 'Social', host: /^([a-z]+\.)?linkedin\.com$|^lnkd\.in$/ },
+  { source: 'Reddit', channel: 'Social', host: /^([a-z]+\.)?reddit\.com$/ },
+  { source: 'Hacker News', channel: 'Social', host: /^news\.ycombinator\.com$/ },
+  { source: 'YouTube', channel: 'Social', host: /^(m\.)?youtube\.com$|^youtu\.be$/ },
+  { source: 'Bluesky', channel: 'Social', host: /^bsky\.app$/ },
+  { source: 'Threads', channel: 'Social', host: /^threads\.net$/ },
+  { source: 'Mastodon', channel: 'Social', host: /^mastodon\.[a-z.]+$/ },
+  // Webmail hosts not listed above
+  { source: '', channel: 'Email', host: /^(web)?mail\./ },
+];
+
+const DIRECT = '(direct)';
+
+// Bare lowercase hostname of a referrer, whether it came as a host or as a full URL
+export const referrerHost = (resource: string): string => {
+  const value = resource.trim().toLowerCase();
+  const host = value.replace(/^[a-z][a-z0-9+.-]*:\/\//, '').split(/[/?#]/)[0].replace(/:\d+$/, '');
+  return host.replace(/^www\./, '');
+};
+
+export interface ClassifiedReferrer {
+  source: string;
+  channel: Channel;
+}
+
+export const classifyReferrer = (resource: string): ClassifiedReferrer => {
+  const host = referrerHost(resource);
+  if (!host || resource.trim() === DIRECT) return { source: 'Direct', channel: 'Direct' };
+  const rule = SOURCE_RULES.find((candidate) => candidate.host.test(host));
+  return { source: rule?.source || host, channel: rule?.channel ?? 'Referral' };
+};
+
+// The site itself, or any of its subdomains
+const isSelfReferral = (host: string, siteDomain?: string) => {
+  const domain = siteDomain && referrerHost(siteDomain);
+  return !!domain && (host === domain || host.endsWith(`.${domain}`));
+};
+
+export interface NormalizedSource extends ClassifiedReferrer {
+  count: number;
+  // Raw referrers merged into this source, largest first
+  variants: string[];
+}
+
+export interface NormalizedSources {
+  sources: NormalizedSource[];
+  // Referrals from the site's own domain, left out of `sources`
+  selfReferrals: number;
+}
+
+export const normalizeSources = (rows: RankingRow[], siteDomain?: string): NormalizedSources => {
+  const merged = new Map<string, NormalizedSource>();
+  let selfReferrals = 0;
+  for (const row of [...rows].sort((a, b) => b.count - a.count)) {
+    if (isSelfReferral(referrerHost(row.resource), siteDomain)) {
+      selfReferrals += row.count;
+      continue;
+    }
+    const { source, channel } = classifyReferrer(row.resource);
+    const existing = merged.get(source);
+    if (existing) {
+      existing.count += row.count;
+      existing.variants.push(row.resource);
+    } else {
+      merged.set(source, { source, channel, count: row.count, variants: [row.resource] });
+    }
+  }
+  return {
+    sources: [...merged.values()].sort((a, b) => b.count - a.count || a.source.localeCompare(b.source)),
+    selfReferrals,
+  };
+};
+
+// Ranking rows again, one per canonical source, for the charts and tables built on rows
+export const toSourceRows = (sources: NormalizedSource[]): RankingRow[] =>
+  sources.map(({ source, count }) => ({ resource: source, count }));
+
+// Total per channel, every channel included so colours and order stay put between ranges
+export const channelBreakdown = (sources: NormalizedSource[]): { channel: Channel; count: number }[] =>
+  CHANNELS.map((channel) => ({
+    channel,
+    count: sources.filter((source) => source.channel === channel).reduce((total, source) => total + source.count, 0),
+  }));
@@ -0,0 +1,41 @@
+import { describeTimeRange, isCustomTimeRange, RangeExpression, TimeRange } from "@/services/netlifyApi";
+
+export interface TimeRangeGroup {
+  label: string;
+  options: { label: string; value: RangeExpression }[];
+}
+
+export const timeRangeGroups: TimeRangeGroup[] = [
+  {
+    label: 'Rolling',
+    options: [
+      { label: 'Last 7 Days', value: '7d'},
+      { label: 'Last 14 Days', value: '14d'},
+      { label: 'Last 30 Days', value: '30d'},
+      { label: 'Last 3 Months', value: '3m'},
+      { label: 'Last Year', value: '1y'},
+    ],
+  },
+  {
+    label: 'Calendar',
+    options: [
+      { label: 'Today', value: 'today'},
+      { label: 'Yesterday', value: 'yesterday'},
+      { label: 'This Week', value: 'this-week'},
+      { label: 'Previous Week', value: 'prev-week'},
+      { label: 'Month to Date', value: 'mtd'},
+      { label: 'Previous Month', value: 'prev-month'},
+      { label: 'Quarter to Date', value: 'qtd'},
+      { label: 'Previous Quarter', value: 'prev-quarter'},
+      { label: 'Year to Date', value: 'ytd'},
+      { label: 'Previous Year', value: 'prev-year'},
+    ],
+  },
+];
+
+const timeRangeOptions = timeRangeGroups.flatMap(group => group.options);
+
+export const getTimeRangeLabel = (timeRange: TimeRange): string =>
+  isCustomTimeRange(timeRange)
+    ? describeTimeRange(timeRange)
+    : timeRangeOptions.find(o => o.value === timeRange)?.label ?? timeRange;
@@ -0,0 +1,38 @@
+import { PathNormalizationStep, RankingRow } from "@/services/netlifyApi";
+import { TriageState, TriageStatus, UNRESOLVED_TRIAGE_STATUSES } from "@/services/triageApi";
+import { normalizePath } from "@/lib/paths";
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  new: 'New',
+  investigating: 'Investigating',
+  fixed: 'Fixed',
+  ignored: 'Ignored',
+};
+
+export interface TriagedRow extends RankingRow {
+  status: TriageStatus;
+  note?: string;
+  // Not on the list when it was last marked reviewed
+  unseen: boolean;
+}
+
+// 404 rows with their triage status. Statuses saved while the list showed merged paths also
+// cover the raw variants of that path, so switching views keeps them.
+export const triageRows = (rows: RankingRow[], state: TriageState | undefined, steps: readonly PathNormalizationStep[]): TriagedRow[] => {
+  const entries = new Map(state?.entries.map((entry) => [entry.path, entry]));
+  const reviewed = state?.review && new Set(state.review.paths);
+  return rows.map((row) => {
+    const normalized = normalizePath(row.resource, steps);
+    const entry = entries.get(row.resource) ?? entries.get(normalized);
+    return {
+      ...row,
+      status: entry?.status ?? 'new',
+      note: entry?.note,
+      unseen: !!reviewed && !reviewed.has(row.resource) && !reviewed.has(normalized),
+    };
+  });
+};
+
+// Hits on paths that are neither fixed nor ignored
+export const unresolvedHits = (rows: TriagedRow[]): number =>
+  rows.filter((row) => UNRESOLVED_TRIAGE_STATUSES.includes(row.status)).reduce((total, row) => total + row.count, 0);
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   LineChart,
@@ -11,90 +12,268 @@ import {
   ResponsiveContainer,
   BarChart,
   Bar,
+  ReferenceArea,
+  ReferenceLine,
 } from "recharts";
 import { Button } from "@/components/ui/button";
-import { Download, AlertCircle } from "lucide-react";
+import { Toggle } from "@/components/ui/toggle";
+import { Download, AlertCircle, CheckCheck, EyeOff, LogOut, LayoutGrid, List, Rocket, StickyNote } from "lucide-react";
+import { toast } from "sonner";
 import {
+  Compared,
+  Comparison,
+  ComparisonRange,
+  getDashboard,
+  getDeploys,
   getPageViews,
+  getSites,
   getVisitors,
-  getCountries,
-  getSources,
-  getPages,
-  getBandwidth,
-  getNotFound,
   exportToCsv,
+  Granularity,
+  MAX_RANKING_LIMIT,
+  PATH_NORMALIZATION_STEPS,
+  RankingName,
+  RankingResponse,
   TimeRange,
+  TimeSeriesResponse,
 } from "@/services/netlifyApi";
-import { cn } from "@/lib/utils";
-
-const formatBytes = (bytes: number | undefined, decimals = 2): string => {
-  if (bytes === undefined || bytes === null || bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  const value = parseFloat((bytes / Math.pow(k, i)).toFixed(dm));
-  return (isNaN(value) ? 0 : value) + ' ' + sizes[i];
+import { getAnnotations } from "@/services/annotationsApi";
+import { getTriage, markReviewed } from "@/services/triageApi";
+import { logout, SessionState } from "@/services/authApi";
+import SiteSwitcher from "@/components/SiteSwitcher";
+import TimeRangeSelector from "@/components/TimeRangeSelector";
+import GranularityToggle from "@/components/GranularityToggle";
+import ComparisonSelector from "@/components/ComparisonSelector";
+import DeltaBadge from "@/components/DeltaBadge";
+import KpiStrip from "@/components/KpiStrip";
+import DeployMarkerLabel from "@/components/DeployMarkerLabel";
+import AnnotationDialog from "@/components/AnnotationDialog";
+import AnnotationMarkerLabel from "@/components/AnnotationMarkerLabel";
+import ChannelBreakdown from "@/components/ChannelBreakdown";
+import ContentGroupBreakdown from "@/components/ContentGroupBreakdown";
+import NormalizePathsToggle from "@/components/NormalizePathsToggle";
+import TriageDialog from "@/components/TriageDialog";
+import { effectiveGranularity, formatBucket } from "@/lib/granularity";
+import { comparisonOptions, overlayPrevious, previousCounts } from "@/lib/comparison";
+import { computeKpis } from "@/lib/kpis";
+import { deployMarkers } from "@/lib/deploys";
+import { AnnotationDraft, annotationMarkers, toCivilDate, withAnnotationLabels } from "@/lib/annotations";
+import { groupPages } from "@/lib/contentGroups";
+import { channelBreakdown, normalizeSources, toSourceRows } from "@/lib/referrers";
+import { normalizeRanking } from "@/lib/paths";
+import { TRIAGE_STATUS_LABELS, TriagedRow, triageRows, unresolvedHits } from "@/lib/triage";
+import { getTimeRangeLabel } from "@/lib/timeRanges";
+import { cn, formatBytes } from "@/lib/utils";
+
+interface CardEmptyStateProps {
+  error?: string;
+  message?: string;
+  className?: string;
+}
+
+// Placeholder for a card with nothing to show; surfaces that card's own fetch error, if any
+const CardEmptyState = ({ error, message = 'No data available', className = 'h-full' }: CardEmptyStateProps) => (
+  <div className={cn("flex items-center justify-center text-gray-500", className)}>
+    {error ? <span className="text-sm text-center text-red-400">Failed to load: {error}</span> : message}
+  </div>
+);
+
+// Explains a missing comparison, e.g. when last year is outside retention and never archived
+const ComparisonNote = ({ previous }: { previous?: ComparisonRange }) =>
+  previous?.error ? <p className="text-xs text-gray-500 pt-2">Comparison unavailable: {previous.error}</p> : null;
+
+interface DeploysToggleProps {
+  pressed: boolean;
+  onPressedChange: (pressed: boolean) => void;
 }
 
+const DeploysToggle = ({ pressed, onPressedChange }: DeploysToggleProps) => (
+  <Toggle
+    size="sm"
+    pressed={pressed}
+    onPressedChange={onPressedChange}
+    aria-label="Show deploys"
+    title={pressed ? 'Hide deploy markers' : 'Show deploy markers'}
+    className="h-7 px-2 text-xs text-gray-400 hover:bg-slate-700 hover:text-gray-200 data-[state=on]:bg-emerald-600/30 data-[state=on]:text-emerald-300"
+  >
+    <Rocket className="mr-1 h-3 w-3" /> Deploys
+  </Toggle>
+);
+
+const TRIAGE_STATUS_CLASSES: Record<TriagedRow['status'], string> = {
+  new: 'text-gray-400',
+  investigating: 'text-amber-400',
+  fixed: 'text-emerald-400',
+  ignored: 'text-gray-500',
+};
+
+// The dashboard fetches more pages than that, for content groups
+const TOP_PAGES_SHOWN = 15;
+
+// Ranking rows with the comparison period's count alongside, for grouped bar charts
+const withPreviousCounts = (ranking: Compared<RankingResponse>, limit?: number) => {
+  const previous = ranking.previous?.error ? undefined : previousCounts(ranking.previous?.data);
+  return ranking.data.slice(0, limit).map(row => previous ? { ...row, previous: previous.get(row.resource) ?? 0 } : row);
+};
+
 const Analytics = () => {
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [comparison, setComparison] = useState<Comparison | undefined>();
+  const [pageViewsGranularity, setPageViewsGranularity] = useState<Granularity>('daily');
+  const [visitorsGranularity, setVisitorsGranularity] = useState<Granularity>('daily');
+  const [showPageViewsDeploys, setShowPageViewsDeploys] = useState(true);
+  const [showVisitorsDeploys, setShowVisitorsDeploys] = useState(true);
+  const [noteDraft, setNoteDraft] = useState<AnnotationDraft | null>(null);
+  const [normalizePages, setNormalizePages] = useState(true);
+  const [normalizeNotFound, setNormalizeNotFound] = useState(true);
+  const [showIgnored, setShowIgnored] = useState(false);
+  const [triageTarget, setTriageTarget] = useState<TriagedRow | null>(null);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const session = queryClient.getQueryData<SessionState>(['session']);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { data: sites = [] } = useQuery({
+    queryKey: ['sites'],
+    queryFn: getSites,
+    staleTime: Infinity,
+  });
+
+  // Selected site lives in the URL so links can point at a specific site
+  const site = sites.find(s => s.id === searchParams.get('site')) ?? sites[0];
+  const siteId = site?.id;
+
+  const handleSiteChange = (nextSiteId: string) => {
+    setSearchParams(params => {
+      params.set('site', nextSiteId);
+      return params;
+    });
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    queryClient.clear();
+    navigate('/login', { replace: true });
+  };
 
   const commonQueryOptions = {
     staleTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
+    enabled: !!siteId,
   };
 
-  const { data: pageViewsData } = useQuery({
-    queryKey: ['pageViews', timeRange],
-    queryFn: () => getPageViews(timeRange),
+  // The KPI strip always shows a change, so the batch asks for the previous period even with comparison off
+  const kpiComparison = comparison ?? 'previous';
+
+  const { data: dashboard } = useQuery({
+    queryKey: ['dashboard', siteId, timeRange, kpiComparison],
+    queryFn: async () => {
+      const result = await getDashboard(siteId, timeRange, kpiComparison);
+      // Seed the per-endpoint cache entries the portfolio view reads
+      for (const [key, value] of Object.entries(result)) {
+        if (!value.error) queryClient.setQueryData([key, siteId, timeRange], value);
+      }
+      return result;
+    },
     ...commonQueryOptions,
   });
 
-  const { data: visitorsData } = useQuery({
-    queryKey: ['visitors', timeRange],
-    queryFn: () => getVisitors(timeRange),
+  const pageViewsBucket = effectiveGranularity(pageViewsGranularity, timeRange);
+  const visitorsBucket = effectiveGranularity(visitorsGranularity, timeRange);
+
+  // The dashboard batch carries daily points; other granularities are fetched per card
+  const { data: resampledPageViews } = useQuery({
+    queryKey: ['pageViews', siteId, timeRange, pageViewsBucket, comparison],
+    queryFn: () => getPageViews(siteId, timeRange, { granularity: pageViewsBucket, comparison }),
     ...commonQueryOptions,
+    enabled: !!siteId && pageViewsBucket !== 'daily',
+    placeholderData: keepPreviousData,
   });
 
-  const { data: countriesData } = useQuery({
-    queryKey: ['countries', timeRange],
-    queryFn: () => getCountries(timeRange),
+  const { data: resampledVisitors } = useQuery({
+    queryKey: ['visitors', siteId, timeRange, visitorsBucket, comparison],
+    queryFn: () => getVisitors(siteId, timeRange, { granularity: visitorsBucket, comparison }),
     ...commonQueryOptions,
+    enabled: !!siteId && visitorsBucket !== 'daily',
+    placeholderData: keepPreviousData,
   });
 
-  const { data: sourcesData } = useQuery({
-    queryKey: ['sources', timeRange],
-    queryFn: () => getSources(timeRange),
+  const { data: deploys = [] } = useQuery({
+    queryKey: ['deploys', siteId, timeRange],
+    queryFn: () => getDeploys(siteId, timeRange),
     ...commonQueryOptions,
+    enabled: !!siteId && (showPageViewsDeploys || showVisitorsDeploys),
   });
 
-  const { data: pagesData } = useQuery({
-    queryKey: ['pages', timeRange],
-    queryFn: () => getPages(timeRange),
+  const { data: annotations = [] } = useQuery({
+    queryKey: ['annotations', siteId],
+    queryFn: () => getAnnotations(siteId),
     ...commonQueryOptions,
   });
 
-  const { data: bandwidthData } = useQuery({
-    queryKey: ['bandwidth', timeRange],
-    queryFn: () => getBandwidth(timeRange),
+  const { data: triage } = useQuery({
+    queryKey: ['triage', siteId],
+    queryFn: () => getTriage(siteId),
     ...commonQueryOptions,
   });
 
-  const { data: notFoundData } = useQuery({
-    queryKey: ['notFound', timeRange],
-    queryFn: () => getNotFound(timeRange),
-    ...commonQueryOptions,
+  const reviewMutation = useMutation({
+    mutationFn: (paths: string[]) => markReviewed(siteId, paths),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['triage', siteId] });
+      toast.success('404s marked as reviewed');
+    },
+    onError: (error: Error) => toast.error(`Failed marking 404s as reviewed: ${error.message}`),
   });
 
-  const siteTitle = import.meta.env.VITE_SITE_TITLE || "Site Analytics";
+  // Clicking a bucket on a timeseries chart starts a note on that day
+  const addNoteAt = (activeLabel: string | number | undefined) => {
+    if (activeLabel === undefined || !siteId) return;
+    setNoteDraft({ date: toCivilDate(Number(activeLabel)) });
+  };
 
-  const timeRangeOptions: { label: string; value: TimeRange }[] = [
-    { label: 'Last 7 Days', value: '7d'},
-    { label: 'Last 30 Days', value: '30d'},
-    { label: 'Last 3 Months', value: '3m'},
-    { label: 'Last Year', value: '1y'},
-  ];
+  // Cards only show the earlier period when a comparison was picked
+  const forCard = <T extends { previous?: unknown }>(entry: T | undefined): T | undefined =>
+    entry && !comparison ? { ...entry, previous: undefined } : entry;
+
+  const pageViewsData: (Compared<TimeSeriesResponse> & { error?: string }) | undefined =
+    pageViewsBucket === 'daily' ? forCard(dashboard?.pageViews) : resampledPageViews;
+  const visitorsData: (Compared<TimeSeriesResponse> & { error?: string }) | undefined =
+    visitorsBucket === 'daily' ? forCard(dashboard?.visitors) : resampledVisitors;
+  // Weekly and monthly visitor buckets hold the average per day, see netlify/lib/resample.ts
+  const visitorsLabel = visitorsBucket === 'weekly' || visitorsBucket === 'monthly' ? 'Avg daily visitors' : 'Visitors';
+  const countriesData = forCard(dashboard?.countries);
+  const sourcesData = forCard(dashboard?.sources);
+  // Referrer variants merged into one row per source, minus referrals from the site itself
+  const sources = sourcesData?.data && normalizeSources(sourcesData.data, site?.domain);
+  const previousSources = sourcesData?.previous && !sourcesData.previous.error
+    ? normalizeSources(sourcesData.previous.data ?? [], site?.domain)
+    : undefined;
+  const sourceRows: Compared<RankingResponse> | undefined = sources && {
+    data: toSourceRows(sources.sources),
+    previous: sourcesData.previous && { ...sourcesData.previous, data: previousSources ? toSourceRows(previousSources.sources) : [] },
+  };
+  const pathSteps = site?.pathNormalization ?? PATH_NORMALIZATION_STEPS;
+  const pagesData = normalizeRanking(forCard(dashboard?.pages), normalizePages ? pathSteps : []);
+  const bandwidthData = dashboard?.bandwidth;
+  const notFoundData = normalizeRanking(forCard(dashboard?.notFound), normalizeNotFound ? pathSteps : []);
+  const kpis = dashboard && computeKpis(dashboard);
+  const kpiComparisonLabel = comparisonOptions.find(option => option.value === kpiComparison)?.label.toLowerCase();
+  const previousPages = pagesData?.previous?.error ? undefined : previousCounts(pagesData?.previous?.data);
+  const contentGroups = site?.contentGroups ?? [];
+  const groupTotals = pagesData?.data && contentGroups.length > 0 ? groupPages(pagesData.data, contentGroups) : undefined;
+  const previousGroupTotals = pagesData?.previous?.data && !pagesData.previous.error && contentGroups.length > 0
+    ? groupPages(pagesData.previous.data, contentGroups)
+    : undefined;
+  const previousNotFound = notFoundData?.previous?.error ? undefined : previousCounts(notFoundData?.previous?.data);
+  const notFoundRows = notFoundData?.data ? triageRows(notFoundData.data, triage, pathSteps) : [];
+  const ignoredCount = notFoundRows.filter(row => row.status === 'ignored').length;
+  const visibleNotFound = showIgnored ? notFoundRows : notFoundRows.filter(row => row.status !== 'ignored');
+
+  const timeRangeLabel = getTimeRangeLabel(timeRange);
+
+  const rankingState = { timeRange, comparison };
+  const rankingLink = (name: RankingName) => `/ranking/${name}${siteId ? `?site=${encodeURIComponent(siteId)}` : ''}`;
 
   const currentBandwidth = bandwidthData?.data?.[0];
 
@@ -103,38 +282,16 @@ const Analytics = () => {
       <div className="max-w-7xl mx-auto space-y-8">
         <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-8">
           <div>
-            <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent">
-              {siteTitle}
-            </h1>
+            <SiteSwitcher sites={sites} value={site} onChange={handleSiteChange} />
             <p className="text-gray-400 mt-2">Real-time insights into your site's performance</p>
           </div>
           <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
-            <div className="flex gap-2 bg-slate-800 p-1 rounded-lg">
-              {timeRangeOptions.map(option => (
-                <Button
-                  key={option.value}
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setTimeRange(option.value)}
-                  className={cn(
-                    "px-3 py-1 rounded-md transition-colors text-sm",
-                    timeRange === option.value
-                      ? "bg-purple-600 text-white hover:bg-purple-700"
-                      : "text-gray-400 hover:bg-slate-700 hover:text-gray-200"
-                  )}
-                >
-                  {option.label}
-                </Button>
-              ))}
-            </div>
+            <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
+            <ComparisonSelector value={comparison} onChange={setComparison} />
             <div className="flex gap-2">
               <Button onClick={() => {
-                if (pageViewsData?.data && Array.isArray(pageViewsData.data[0])) {
-                  const formattedData = pageViewsData.data.map((row: any) => [
-                    new Date(row[0]).toLocaleDateString(),
-                    row[1]
-                  ]);
-                  exportToCsv(formattedData, 'pageviews');
+                if (pageViewsData?.data && pageViewsData.data.length > 0) {
+                  exportToCsv(annotations.length > 0 ? withAnnotationLabels(pageViewsData.data, annotations) : pageViewsData.data, 'pageviews', site?.name);
                 } else {
                   console.warn("Page views data not ready or invalid format for export:", pageViewsData);
                 }
@@ -142,94 +299,200 @@ const Analytics = () => {
                 <Download className="mr-1 h-3 w-3" /> Export Views
               </Button>
               <Button onClick={() => {
-                if (visitorsData?.data && Array.isArray(visitorsData.data[0])) {
-                  const formattedData = visitorsData.data.map((row: any) => [
-                    new Date(row[0]).toLocaleDateString(),
-                    row[1]
-                  ]);
-                  exportToCsv(formattedData, 'visitors');
+                if (visitorsData?.data && visitorsData.data.length > 0) {
+                  exportToCsv(annotations.length > 0 ? withAnnotationLabels(visitorsData.data, annotations) : visitorsData.data, 'visitors', site?.name);
                 } else {
                   console.warn("Visitors data not ready or invalid format for export:", visitorsData);
                 }
               }} variant="outline" className="text-pink-400 border-pink-400/50 hover:bg-pink-900/50 hover:text-pink-300 transition-colors text-xs px-2 py-1">
                 <Download className="mr-1 h-3 w-3" /> Export Visitors
               </Button>
+              {sites.length > 1 && (
+                <Button asChild variant="ghost" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors text-xs px-2 py-1">
+                  <Link to="/portfolio"><LayoutGrid className="mr-1 h-3 w-3" /> Portfolio</Link>
+                </Button>
+              )}
+              {session?.authRequired && (
+                <Button onClick={handleLogout} variant="ghost" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors text-xs px-2 py-1">
+                  <LogOut className="mr-1 h-3 w-3" /> Log out
+                </Button>
+              )}
             </div>
           </div>
         </div>
 
+        {kpis && <KpiStrip kpis={kpis} comparisonLabel={kpiComparisonLabel} />}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           <Card className="bg-white/5 backdrop-blur-lg border-white/10">
-            <CardHeader>
+            <CardHeader className="flex flex-row justify-between items-center">
               <CardTitle className="text-xl font-semibold text-gray-200">Page Views</CardTitle>
+              <div className="flex items-center gap-2">
+                <DeploysToggle pressed={showPageViewsDeploys} onPressedChange={setShowPageViewsDeploys} />
+                <GranularityToggle value={pageViewsBucket} onChange={setPageViewsGranularity} timeRange={timeRange} />
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
                 {pageViewsData?.data && pageViewsData.data.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={pageViewsData?.data}>
+                    <LineChart
+                      data={overlayPrevious(pageViewsData.data, pageViewsData.previous?.data)}
+                      onClick={(state) => addNoteAt(state?.activeLabel)}
+                      className="cursor-crosshair"
+                    >
                       <CartesianGrid strokeDasharray="3 3" stroke="#2D3748" />
                       <XAxis
-                        dataKey="0"
-                        tickFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                        dataKey="timestamp"
+                        tickFormatter={(timestamp) => formatBucket(timestamp, pageViewsBucket)}
                         stroke="#718096"
                       />
                       <YAxis stroke="#718096" />
                       <Tooltip
-                        labelFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                        labelFormatter={(timestamp) => formatBucket(timestamp, pageViewsBucket)}
                         contentStyle={{ backgroundColor: '#1A202C', border: 'none' }}
                       />
                       <Line
                         type="monotone"
-                        dataKey="1"
+                        dataKey="value"
                         stroke="#8B5CF6"
                         strokeWidth={2}
                         dot={false}
                         name="Views"
                       />
+                      {pageViewsData.previous && !pageViewsData.previous.error && (
+                        <Line
+                          type="monotone"
+                          dataKey="previous"
+                          stroke="#8B5CF6"
+                          strokeOpacity={0.5}
+                          strokeDasharray="5 5"
+                          strokeWidth={2}
+                          dot={false}
+                          name="Comparison period"
+                        />
+                      )}
+                      {annotationMarkers(pageViewsData.data, annotations).map(({ annotation, x1, x2 }) => x2 === undefined ? (
+                        <ReferenceLine
+                          key={annotation.id}
+                          x={x1}
+                          stroke={annotation.color}
+                          strokeDasharray="4 2"
+                          label={<AnnotationMarkerLabel annotation={annotation} onSelect={(selected) => setNoteDraft({ annotation: selected, date: selected.date })} />}
+                        />
+                      ) : (
+                        <ReferenceArea
+                          key={annotation.id}
+                          x1={x1}
+                          x2={x2}
+                          fill={annotation.color}
+                          fillOpacity={0.12}
+                          label={<AnnotationMarkerLabel annotation={annotation} onSelect={(selected) => setNoteDraft({ annotation: selected, date: selected.date })} />}
+                        />
+                      ))}
+                      {showPageViewsDeploys && deployMarkers(pageViewsData.data, deploys).map(marker => (
+                        <ReferenceLine
+                          key={marker.timestamp}
+                          x={marker.timestamp}
+                          stroke="#10B981"
+                          strokeDasharray="2 4"
+                          label={<DeployMarkerLabel deploys={marker.deploys} />}
+                        />
+                      ))}
                     </LineChart>
                   </ResponsiveContainer>
                 ) : (
-                  <div className="flex items-center justify-center h-full text-gray-500">No data available</div>
+                  <CardEmptyState error={pageViewsData?.error} />
                 )}
               </div>
+              <ComparisonNote previous={pageViewsData?.previous} />
+              {pageViewsData?.data?.length > 0 && <p className="text-xs text-gray-500 pt-2">Click the chart to add a note for that day.</p>}
             </CardContent>
           </Card>
 
           <Card className="bg-white/5 backdrop-blur-lg border-white/10">
-            <CardHeader>
+            <CardHeader className="flex flex-row justify-between items-center">
               <CardTitle className="text-xl font-semibold text-gray-200">Unique Visitors</CardTitle>
+              <div className="flex items-center gap-2">
+                <DeploysToggle pressed={showVisitorsDeploys} onPressedChange={setShowVisitorsDeploys} />
+                <GranularityToggle value={visitorsBucket} onChange={setVisitorsGranularity} timeRange={timeRange} />
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
                 {visitorsData?.data && visitorsData.data.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={visitorsData?.data}>
+                    <LineChart
+                      data={overlayPrevious(visitorsData.data, visitorsData.previous?.data)}
+                      onClick={(state) => addNoteAt(state?.activeLabel)}
+                      className="cursor-crosshair"
+                    >
                       <CartesianGrid strokeDasharray="3 3" stroke="#2D3748" />
                       <XAxis
-                        dataKey="0"
-                        tickFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                        dataKey="timestamp"
+                        tickFormatter={(timestamp) => formatBucket(timestamp, visitorsBucket)}
                         stroke="#718096"
                       />
                       <YAxis stroke="#718096" />
                       <Tooltip
-                        labelFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                        labelFormatter={(timestamp) => formatBucket(timestamp, visitorsBucket)}
                         contentStyle={{ backgroundColor: '#1A202C', border: 'none' }}
                       />
                       <Line
                         type="monotone"
-                        dataKey="1"
+                        dataKey="value"
                         stroke="#EC4899"
                         strokeWidth={2}
                         dot={false}
-                        name="Visitors"
+                        name={visitorsLabel}
                       />
+                      {visitorsData.previous && !visitorsData.previous.error && (
+                        <Line
+                          type="monotone"
+                          dataKey="previous"
+                          stroke="#EC4899"
+                          strokeOpacity={0.5}
+                          strokeDasharray="5 5"
+                          strokeWidth={2}
+                          dot={false}
+                          name="Comparison period"
+                        />
+                      )}
+                      {annotationMarkers(visitorsData.data, annotations).map(({ annotation, x1, x2 }) => x2 === undefined ? (
+                        <ReferenceLine
+                          key={annotation.id}
+                          x={x1}
+                          stroke={annotation.color}
+                          strokeDasharray="4 2"
+                          label={<AnnotationMarkerLabel annotation={annotation} onSelect={(selected) => setNoteDraft({ annotation: selected, date: selected.date })} />}
+                        />
+                      ) : (
+                        <ReferenceArea
+                          key={annotation.id}
+                          x1={x1}
+                          x2={x2}
+                          fill={annotation.color}
+                          fillOpacity={0.12}
+                          label={<AnnotationMarkerLabel annotation={annotation} onSelect={(selected) => setNoteDraft({ annotation: selected, date: selected.date })} />}
+                        />
+                      ))}
+                      {showVisitorsDeploys && deployMarkers(visitorsData.data, deploys).map(marker => (
+                        <ReferenceLine
+                          key={marker.timestamp}
+                          x={marker.timestamp}
+                          stroke="#10B981"
+                          strokeDasharray="2 4"
+                          label={<DeployMarkerLabel deploys={marker.deploys} />}
+                        />
+                      ))}
                     </LineChart>
                   </ResponsiveContainer>
                 ) : (
-                  <div className="flex items-center justify-center h-full text-gray-500">No data available</div>
+                  <CardEmptyState error={visitorsData?.error} />
                 )}
               </div>
+              <ComparisonNote previous={visitorsData?.previous} />
+              {visitorsData?.data?.length > 0 && <p className="text-xs text-gray-500 pt-2">Click the chart to add a note for that day.</p>}
             </CardContent>
           </Card>
 
@@ -239,7 +502,7 @@ const Analytics = () => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => currentBandwidth && exportToCsv([currentBandwidth], 'bandwidth')}
+                onClick={() => currentBandwidth && exportToCsv([currentBandwidth], 'bandwidth', site?.name)}
                 disabled={!currentBandwidth}
                 className="text-teal-400 border-teal-400/50 hover:bg-teal-900/50 hover:text-teal-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -251,19 +514,19 @@ const Analytics = () => {
                 {currentBandwidth ? (
                   <>
                     <div className="text-center">
-                      <p className="text-gray-400 text-sm mb-1">Site Bandwidth ({timeRangeOptions.find(o => o.value === timeRange)?.label})</p>
+                      <p className="text-gray-400 text-sm mb-1">Site Bandwidth ({timeRangeLabel})</p>
                       <p className="text-3xl font-bold text-teal-400">{formatBytes(currentBandwidth.siteBandwidth)}</p>
                     </div>
                     <div className="text-center">
-                      <p className="text-gray-400 text-sm mb-1">Account Bandwidth ({timeRangeOptions.find(o => o.value === timeRange)?.label})</p>
-                      <p className="text-3xl font-bold text-gray-300">{formatBytes(currentBandwidth.accountBandwidth)}</p>
+                      <p className="text-gray-400 text-sm mb-1">Account Bandwidth ({timeRangeLabel})</p>
+                      <p className="text-3xl font-bold text-gray-300">{currentBandwidth.accountBandwidth !== undefined ? formatBytes(currentBandwidth.accountBandwidth) : 'N/A'}</p>
                     </div>
                     <p className="text-xs text-gray-500 text-center pt-4">
                       Data reflects usage between {new Date(currentBandwidth.start).toLocaleDateString()} and {new Date(currentBandwidth.end).toLocaleDateString()}
                     </p>
                   </>
                 ) : (
-                  <div className="flex items-center justify-center h-full text-gray-500">No bandwidth data available</div>
+                  <CardEmptyState error={bandwidthData?.error} message="No bandwidth data available" />
                 )}
               </div>
             </CardContent>
@@ -272,93 +535,150 @@ const Analytics = () => {
           <Card className="bg-white/5 backdrop-blur-lg border-white/10">
             <CardHeader className="flex flex-row justify-between items-center">
               <CardTitle className="text-xl font-semibold text-gray-200">Top Countries</CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => countriesData?.data && exportToCsv(countriesData.data, 'countries')}
-                disabled={!countriesData?.data || countriesData.data.length === 0}
-                className="text-orange-400 border-orange-400/50 hover:bg-orange-900/50 hover:text-orange-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Download className="mr-2 h-4 w-4" /> Export
-              </Button>
+              <div className="flex gap-2">
+                <Button asChild variant="ghost" size="sm" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors">
+                  <Link to={rankingLink('countries')} state={rankingState}><List className="mr-2 h-4 w-4" /> All</Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => countriesData?.data && exportToCsv(countriesData.data, 'countries', site?.name)}
+                  disabled={!countriesData?.data || countriesData.data.length === 0}
+                  className="text-orange-400 border-orange-400/50 hover:bg-orange-900/50 hover:text-orange-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="mr-2 h-4 w-4" /> Export
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
                 {countriesData?.data && countriesData.data.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={countriesData.data.slice(0, 10)} layout="vertical" margin={{ right: 30 }}>
+                    <BarChart data={withPreviousCounts(countriesData, 10)} layout="vertical" margin={{ right: 30 }}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#2D3748" />
                       <XAxis type="number" stroke="#718096" />
                       <YAxis dataKey="resource" type="category" stroke="#718096" width={60} tick={{ fontSize: 10 }}/>
                       <Tooltip contentStyle={{ backgroundColor: '#1A202C', border: 'none' }} cursor={{ fill: '#ffffff10' }}/>
                       <Bar dataKey="count" fill="#F97316" name="Views"/>
+                      {countriesData.previous && !countriesData.previous.error && <Bar dataKey="previous" fill="#F97316" fillOpacity={0.35} name="Comparison period"/>}
                     </BarChart>
                   </ResponsiveContainer>
                 ) : (
-                  <div className="flex items-center justify-center h-full text-gray-500">No data available</div>
+                  <CardEmptyState error={countriesData?.error} />
                 )}
               </div>
+              <ComparisonNote previous={countriesData?.previous} />
             </CardContent>
           </Card>
 
           <Card className="bg-white/5 backdrop-blur-lg border-white/10">
             <CardHeader className="flex flex-row justify-between items-center">
               <CardTitle className="text-xl font-semibold text-gray-200">Top Sources</CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => sourcesData?.data && exportToCsv(sourcesData.data, 'sources')}
-                disabled={!sourcesData?.data || sourcesData.data.length === 0}
-                className="text-indigo-400 border-indigo-400/50 hover:bg-indigo-900/50 hover:text-indigo-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Download className="mr-2 h-4 w-4" /> Export
-              </Button>
+              <div className="flex gap-2">
+                <Button asChild variant="ghost" size="sm" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors">
+                  <Link to={rankingLink('sources')} state={rankingState}><List className="mr-2 h-4 w-4" /> All</Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => sources && exportToCsv(
+                    sources.sources.map(({ source, channel, count }) => ({ resource: source, channel, count })),
+                    'sources',
+                    site?.name
+                  )}
+                  disabled={!sources || sources.sources.length === 0}
+                  className="text-indigo-400 border-indigo-400/50 hover:bg-indigo-900/50 hover:text-indigo-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="mr-2 h-4 w-4" /> Export
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
-                {sourcesData?.data && sourcesData.data.length > 0 ? (
+                {sourceRows && sourceRows.data.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={sourcesData.data} layout="vertical" margin={{ right: 30 }}>
+                    <BarChart data={withPreviousCounts(sourceRows, 10)} layout="vertical" margin={{ right: 30 }}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#2D3748" />
                       <XAxis type="number" stroke="#718096" />
-                      <YAxis dataKey="resource" type="category" stroke="#718096" width={80} tick={{ fontSize: 10 }} tickFormatter={(value) => value === '(direct)' ? 'Direct' : value}/>
+                      <YAxis dataKey="resource" type="category" stroke="#718096" width={80} tick={{ fontSize: 10 }}/>
                       <Tooltip contentStyle={{ backgroundColor: '#1A202C', border: 'none' }} cursor={{ fill: '#ffffff10' }}/>
                       <Bar dataKey="count" fill="#8B5CF6" name="Referrals"/>
+                      {sourceRows.previous && !sourceRows.previous.error && <Bar dataKey="previous" fill="#8B5CF6" fillOpacity={0.35} name="Comparison period"/>}
                     </BarChart>
                   </ResponsiveContainer>
                 ) : (
-                  <div className="flex items-center justify-center h-full text-gray-500">No data available</div>
+                  <CardEmptyState error={sourcesData?.error} />
                 )}
               </div>
+              <ComparisonNote previous={sourcesData?.previous} />
             </CardContent>
           </Card>
 
-          <Card className="md:col-span-2 lg:col-span-1 bg-white/5 backdrop-blur-lg border-white/10">
+          <Card className="bg-white/5 backdrop-blur-lg border-white/10">
             <CardHeader className="flex flex-row justify-between items-center">
-              <CardTitle className="text-xl font-semibold text-gray-200">Top Pages</CardTitle>
+              <CardTitle className="text-xl font-semibold text-gray-200">Channels</CardTitle>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => pagesData?.data && exportToCsv(pagesData.data, 'pages')}
-                disabled={!pagesData?.data || pagesData.data.length === 0}
-                className="text-purple-400 border-purple-400/50 hover:bg-purple-900/50 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => sources && exportToCsv(channelBreakdown(sources.sources), 'channels', site?.name)}
+                disabled={!sources || sources.sources.length === 0}
+                className="text-emerald-400 border-emerald-400/50 hover:bg-emerald-900/50 hover:text-emerald-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Download className="mr-2 h-4 w-4" /> Export
               </Button>
             </CardHeader>
+            <CardContent>
+              <div className="h-[300px]">
+                {sources && sources.sources.length > 0 ? (
+                  <ChannelBreakdown sources={sources.sources} previousSources={previousSources?.sources} />
+                ) : (
+                  <CardEmptyState error={sourcesData?.error} />
+                )}
+              </div>
+              {sources && sources.selfReferrals > 0 && (
+                <p className="text-xs text-gray-500 pt-2">
+                  {sources.selfReferrals.toLocaleString()} referrals from {site?.domain} left out
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-2 lg:col-span-1 bg-white/5 backdrop-blur-lg border-white/10">
+            <CardHeader className="flex flex-row justify-between items-center">
+              <CardTitle className="text-xl font-semibold text-gray-200">Top Pages</CardTitle>
+              <div className="flex gap-2">
+                <NormalizePathsToggle pressed={normalizePages} onPressedChange={setNormalizePages} />
+                <Button asChild variant="ghost" size="sm" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors">
+                  <Link to={rankingLink('pages')} state={{ ...rankingState, normalizePaths: normalizePages }}><List className="mr-2 h-4 w-4" /> All</Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => pagesData?.data && exportToCsv(pagesData.data, 'pages', site?.name)}
+                  disabled={!pagesData?.data || pagesData.data.length === 0}
+                  className="text-purple-400 border-purple-400/50 hover:bg-purple-900/50 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="mr-2 h-4 w-4" /> Export
+                </Button>
+              </div>
+            </CardHeader>
             <CardContent>
               <div className="h-[300px] overflow-y-auto space-y-2 pr-2">
                 {pagesData?.data && pagesData.data.length > 0 ? (
-                  pagesData.data.map((page: any) => (
+                  pagesData.data.slice(0, TOP_PAGES_SHOWN).map((page) => (
                     <div key={page.resource} className="flex justify-between items-center p-2 rounded bg-white/5 hover:bg-white/10 transition-colors text-sm">
                       <span className="truncate text-gray-300" title={page.resource}>{page.resource}</span>
-                      <span className="ml-4 flex-shrink-0 text-purple-400 font-medium">{page.count.toLocaleString()}</span>
+                      <span className="ml-4 flex-shrink-0 flex items-baseline gap-2">
+                        {previousPages && <DeltaBadge current={page.count} previous={previousPages.get(page.resource)} />}
+                        <span className="text-purple-400 font-medium">{page.count.toLocaleString()}</span>
+                      </span>
                     </div>
                   ))
                 ) : (
-                  <div className="flex items-center justify-center h-full text-gray-500">No data available</div>
+                  <CardEmptyState error={pagesData?.error} />
                 )}
               </div>
+              <ComparisonNote previous={pagesData?.previous} />
             </CardContent>
           </Card>
 
@@ -366,34 +686,130 @@ const Analytics = () => {
             <CardHeader className="flex flex-row justify-between items-center">
               <CardTitle className="text-xl font-semibold text-gray-200 flex items-center">
                 <AlertCircle className="w-5 h-5 mr-2 text-red-500" /> Top Not Found (404s)
+                {notFoundRows.length > 0 && (
+                  <span className="ml-3 text-sm font-normal text-red-300" title="Hits on paths that are neither fixed nor ignored">
+                    {unresolvedHits(notFoundRows).toLocaleString()} unresolved hits
+                  </span>
+                )}
               </CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => notFoundData?.data && exportToCsv(notFoundData.data, 'not_found')}
-                disabled={!notFoundData?.data || notFoundData.data.length === 0}
-                className="text-red-400 border-red-400/50 hover:bg-red-900/50 hover:text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Download className="mr-2 h-4 w-4" /> Export
-              </Button>
+              <div className="flex flex-wrap justify-end gap-2">
+                <NormalizePathsToggle pressed={normalizeNotFound} onPressedChange={setNormalizeNotFound} />
+                <Toggle
+                  size="sm"
+                  pressed={showIgnored}
+                  onPressedChange={setShowIgnored}
+                  aria-label="Show ignored 404s"
+                  className="h-8 px-2 text-xs text-gray-400 hover:bg-slate-700 hover:text-gray-200 data-[state=on]:bg-slate-600/60 data-[state=on]:text-gray-200"
+                >
+                  <EyeOff className="mr-1 h-3 w-3" /> Ignored ({ignoredCount})
+                </Toggle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => reviewMutation.mutate(notFoundRows.map(row => row.resource))}
+                  disabled={!siteId || notFoundRows.length === 0 || reviewMutation.isPending}
+                  title="Remember the current list; paths that show up later are highlighted"
+                  className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors"
+                >
+                  <CheckCheck className="mr-2 h-4 w-4" /> Mark reviewed
+                </Button>
+                <Button asChild variant="ghost" size="sm" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors">
+                  <Link to={rankingLink('not_found')} state={{ ...rankingState, normalizePaths: normalizeNotFound }}><List className="mr-2 h-4 w-4" /> All</Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => notFoundData?.data && exportToCsv(notFoundData.data, 'not_found', site?.name)}
+                  disabled={!notFoundData?.data || notFoundData.data.length === 0}
+                  className="text-red-400 border-red-400/50 hover:bg-red-900/50 hover:text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="mr-2 h-4 w-4" /> Export
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="max-h-[300px] overflow-y-auto space-y-2 pr-2">
-                {notFoundData?.data && notFoundData.data.length > 0 ? (
-                  notFoundData.data.map((page: any) => (
-                    <div key={page.resource} className="flex justify-between items-center p-2 rounded bg-white/5 hover:bg-white/10 transition-colors text-sm">
-                      <span className="truncate text-gray-300" title={page.resource}>{page.resource}</span>
-                      <span className="ml-4 flex-shrink-0 text-red-400 font-medium">{page.count.toLocaleString()}</span>
-                    </div>
+                {visibleNotFound.length > 0 ? (
+                  visibleNotFound.map((page) => (
+                    <button
+                      type="button"
+                      key={page.resource}
+                      onClick={() => setTriageTarget(page)}
+                      className={cn(
+                        "w-full flex justify-between items-center p-2 rounded bg-white/5 hover:bg-white/10 transition-colors text-sm text-left",
+                        page.unseen && "ring-1 ring-inset ring-sky-500/60",
+                        (page.status === 'fixed' || page.status === 'ignored') && "opacity-60"
+                      )}
+                    >
+                      <span className="flex items-center gap-2 min-w-0">
+                        <span className="truncate text-gray-300" title={page.resource}>{page.resource}</span>
+                        {page.unseen && <span className="flex-shrink-0 text-xs text-sky-400" title="Not on the list at the last review">unseen</span>}
+                        {page.note && <StickyNote className="h-3 w-3 flex-shrink-0 text-gray-500" aria-label={page.note} />}
+                      </span>
+                      <span className="ml-4 flex-shrink-0 flex items-baseline gap-2">
+                        {page.status !== 'new' && (
+                          <span className={cn("text-xs", TRIAGE_STATUS_CLASSES[page.status])}>{TRIAGE_STATUS_LABELS[page.status]}</span>
+                        )}
+                        {previousNotFound && <DeltaBadge current={page.count} previous={previousNotFound.get(page.resource)} invert />}
+                        <span className="text-red-400 font-medium">{page.count.toLocaleString()}</span>
+                      </span>
+                    </button>
                   ))
                 ) : (
-                  <div className="flex items-center justify-center h-[100px] text-gray-500">No 404s recorded in this period.</div>
+                  <CardEmptyState
+                    error={notFoundData?.error}
+                    message={notFoundRows.length > 0 ? 'Every 404 in this period is ignored.' : 'No 404s recorded in this period.'}
+                    className="h-[100px]"
+                  />
                 )}
               </div>
+              {notFoundRows.length > 0 && (
+                <p className="text-xs text-gray-500 pt-2">
+                  {triage?.review && `Last reviewed ${new Date(triage.review.reviewedAt).toLocaleString()}. `}
+                  Click a path to set its status or add a note.
+                </p>
+              )}
+              <ComparisonNote previous={notFoundData?.previous} />
             </CardContent>
           </Card>
+
+          {contentGroups.length > 0 && (
+            <Card className="md:col-span-2 lg:col-span-3 bg-white/5 backdrop-blur-lg border-white/10">
+              <CardHeader className="flex flex-row justify-between items-center">
+                <CardTitle className="text-xl font-semibold text-gray-200">Content Groups</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => groupTotals && exportToCsv(
+                    groupTotals.map(({ name, count, pages }) => ({ group: name, count, pages: pages.length })),
+                    'content_groups',
+                    site?.name
+                  )}
+                  disabled={!groupTotals || groupTotals.length === 0}
+                  className="text-purple-400 border-purple-400/50 hover:bg-purple-900/50 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="mr-2 h-4 w-4" /> Export
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <div className="h-[300px]">
+                  {groupTotals && pagesData.data.length > 0 ? (
+                    <ContentGroupBreakdown key={siteId} groups={groupTotals} previousGroups={previousGroupTotals} />
+                  ) : (
+                    <CardEmptyState error={pagesData?.error} />
+                  )}
+                </div>
+                {dashboard?.pages?.data && dashboard.pages.data.length >= MAX_RANKING_LIMIT && (
+                  <p className="text-xs text-gray-500 pt-2">Built from the top {MAX_RANKING_LIMIT} pages</p>
+                )}
+                <ComparisonNote previous={pagesData?.previous} />
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
+      {siteId && <AnnotationDialog siteId={siteId} draft={noteDraft} onClose={() => setNoteDraft(null)} />}
+      {siteId && <TriageDialog siteId={siteId} row={triageTarget} onClose={() => setTriageTarget(null)} />}
     </div>
   );
 };
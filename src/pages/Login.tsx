@@ -0,0 +1,73 @@
+import { FormEvent, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Lock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { login } from "@/services/authApi";
+
+const Login = () => {
+  const [password, setPassword] = useState('');
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Only follow same-site relative paths so the login page can't be used as an open redirect
+  const next = searchParams.get('next');
+  const redirectTo = next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    onSuccess: (session) => {
+      queryClient.setQueryData(['session'], session);
+      navigate(redirectTo, { replace: true });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (password) loginMutation.mutate(password);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-slate-900 to-slate-800 text-white flex items-center justify-center p-8">
+      <Card className="w-full max-w-sm bg-white/5 backdrop-blur-lg border-white/10">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent flex items-center">
+            <Lock className="w-5 h-5 mr-2 text-purple-400" /> Sign in
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password" className="text-gray-300">Dashboard password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                className="bg-slate-800 border-white/10 text-white"
+              />
+            </div>
+            {loginMutation.isError && (
+              <p className="text-sm text-red-400">{loginMutation.error.message}</p>
+            )}
+            <Button
+              type="submit"
+              disabled={!password || loginMutation.isPending}
+              className="w-full bg-purple-600 text-white hover:bg-purple-700"
+            >
+              {loginMutation.isPending ? 'Signing in…' : 'Sign in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
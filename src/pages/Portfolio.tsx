@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft, Download } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import TimeRangeSelector from "@/components/TimeRangeSelector";
+import {
+  DataPoint,
+  getBandwidth,
+  getPageViews,
+  getSites,
+  getVisitors,
+  exportToCsv,
+  Site,
+  TimeRange,
+} from "@/services/netlifyApi";
+import { getTimeRangeLabel } from "@/lib/timeRanges";
+import { cn, formatBytes } from "@/lib/utils";
+
+type Metric = 'pageviews' | 'visitors';
+
+const SITE_COLORS = ['#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#EAB308', '#22C55E', '#EF4444', '#0EA5E9', '#A855F7'];
+
+const sumPoints = (points: DataPoint[] = []) => points.reduce((total, { value }) => total + value, 0);
+
+const share = (value: number, total: number) => (total > 0 ? (value / total) * 100 : 0);
+
+const Portfolio = () => {
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [metric, setMetric] = useState<Metric>('pageviews');
+
+  const { data: sites = [] } = useQuery({
+    queryKey: ['sites'],
+    queryFn: getSites,
+    staleTime: Infinity,
+  });
+
+  const commonQueryOptions = {
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  };
+
+  // Same keys as the single-site dashboard so switching between the two reuses the cache
+  const pageViewsResults = useQueries({
+    queries: sites.map(site => ({
+      queryKey: ['pageViews', site.id, timeRange],
+      queryFn: () => getPageViews(site.id, timeRange),
+      ...commonQueryOptions,
+    })),
+  });
+
+  const visitorsResults = useQueries({
+    queries: sites.map(site => ({
+      queryKey: ['visitors', site.id, timeRange],
+      queryFn: () => getVisitors(site.id, timeRange),
+      ...commonQueryOptions,
+    })),
+  });
+
+  const bandwidthResults = useQueries({
+    queries: sites.map(site => ({
+      queryKey: ['bandwidth', site.id, timeRange],
+      queryFn: () => getBandwidth(site.id, timeRange),
+      ...commonQueryOptions,
+    })),
+  });
+
+  const seriesBySite = (metric === 'pageviews' ? pageViewsResults : visitorsResults)
+    .map(result => result.data?.data ?? []);
+
+  // One row per timestamp with a column per site id, ready for a stacked chart
+  const stackedRows = (() => {
+    const rows = new Map<number, Record<string, number>>();
+    seriesBySite.forEach((points, index) => {
+      const siteId = sites[index]?.id;
+      if (!siteId) return;
+      for (const { timestamp, value } of points) {
+        const row = rows.get(timestamp) ?? { timestamp };
+        row[siteId] = (row[siteId] ?? 0) + value;
+        rows.set(timestamp, row);
+      }
+    });
+    return [...rows.values()].sort((a, b) => a.timestamp - b.timestamp);
+  })();
+
+  const siteTotals = sites.map((site, index) => ({
+    site,
+    color: SITE_COLORS[index % SITE_COLORS.length],
+    pageviews: sumPoints(pageViewsResults[index]?.data?.data),
+    visitors: sumPoints(visitorsResults[index]?.data?.data),
+    bandwidth: bandwidthResults[index]?.data?.data?.[0]?.siteBandwidth ?? 0,
+  }));
+
+  const totals = siteTotals.reduce(
+    (acc, row) => ({
+      pageviews: acc.pageviews + row.pageviews,
+      visitors: acc.visitors + row.visitors,
+      bandwidth: acc.bandwidth + row.bandwidth,
+    }),
+    { pageviews: 0, visitors: 0, bandwidth: 0 }
+  );
+
+  const rankedSites = [...siteTotals].sort((a, b) => b.pageviews - a.pageviews || b.bandwidth - a.bandwidth);
+
+  const isLoading = [...pageViewsResults, ...visitorsResults, ...bandwidthResults].some(result => result.isPending);
+
+  const exportSites = () => {
+    exportToCsv(rankedSites.map(row => ({
+      site: row.site.name,
+      site_id: row.site.id,
+      pageviews: row.pageviews,
+      visitors: row.visitors,
+      pageviews_share: share(row.pageviews, totals.pageviews).toFixed(2),
+      bandwidth_bytes: row.bandwidth,
+      bandwidth_share: share(row.bandwidth, totals.bandwidth).toFixed(2),
+    })), 'portfolio_sites');
+  };
+
+  const exportTimeseries = () => {
+    exportToCsv(stackedRows.map(row => ({
+      date: new Date(row.timestamp).toLocaleDateString(),
+      ...Object.fromEntries(sites.map((site: Site) => [site.name, row[site.id] ?? 0])),
+    })), `portfolio_${metric}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-slate-900 to-slate-800 text-white p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent">
+              Portfolio
+            </h1>
+            <p className="text-gray-400 mt-2">
+              All {sites.length} configured sites, {getTimeRangeLabel(timeRange).toLowerCase()}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+            <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
+            <Button asChild variant="ghost" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors text-xs px-2 py-1">
+              <Link to="/"><ArrowLeft className="mr-1 h-3 w-3" /> Single site</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-white/5 backdrop-blur-lg border-white/10">
+          <CardHeader className="flex flex-row justify-between items-center">
+            <CardTitle className="text-xl font-semibold text-gray-200">
+              {metric === 'pageviews' ? 'Page Views' : 'Unique Visitors'} by Site
+            </CardTitle>
+            <div className="flex gap-2">
+              <div className="flex gap-1 bg-slate-800 p-1 rounded-lg">
+                {(['pageviews', 'visitors'] as Metric[]).map(option => (
+                  <Button
+                    key={option}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setMetric(option)}
+                    className={cn(
+                      "px-3 py-1 h-7 rounded-md transition-colors text-xs",
+                      metric === option
+                        ? "bg-purple-600 text-white hover:bg-purple-700"
+                        : "text-gray-400 hover:bg-slate-700 hover:text-gray-200"
+                    )}
+                  >
+                    {option === 'pageviews' ? 'Views' : 'Visitors'}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={exportTimeseries}
+                disabled={stackedRows.length === 0}
+                className="text-purple-400 border-purple-400/50 hover:bg-purple-900/50 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="mr-2 h-4 w-4" /> Export
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[360px]">
+              {stackedRows.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={stackedRows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2D3748" />
+                    <XAxis
+                      dataKey="timestamp"
+                      tickFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                      stroke="#718096"
+                    />
+                    <YAxis stroke="#718096" />
+                    <Tooltip
+                      labelFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                      contentStyle={{ backgroundColor: '#1A202C', border: 'none' }}
+                    />
+                    <Legend />
+                    {siteTotals.map(({ site, color }) => (
+                      <Area
+                        key={site.id}
+                        type="monotone"
+                        dataKey={site.id}
+                        name={site.name}
+                        stackId="sites"
+                        stroke={color}
+                        fill={color}
+                        fillOpacity={0.35}
+                      />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex items-center justify-center h-full text-gray-500">
+                  {isLoading ? 'Loading…' : 'No data available'}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/5 backdrop-blur-lg border-white/10">
+          <CardHeader className="flex flex-row justify-between items-center">
+            <CardTitle className="text-xl font-semibold text-gray-200">Sites by Traffic</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={exportSites}
+              disabled={rankedSites.length === 0}
+              className="text-teal-400 border-teal-400/50 hover:bg-teal-900/50 hover:text-teal-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="mr-2 h-4 w-4" /> Export
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="text-gray-400">Site</TableHead>
+                  <TableHead className="text-right text-gray-400">Page Views</TableHead>
+                  <TableHead className="text-right text-gray-400">Share</TableHead>
+                  <TableHead className="text-right text-gray-400">Visitors</TableHead>
+                  <TableHead className="text-right text-gray-400">Bandwidth</TableHead>
+                  <TableHead className="text-right text-gray-400">Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rankedSites.map(row => (
+                  <TableRow key={row.site.id} className="border-white/10 hover:bg-white/5">
+                    <TableCell>
+                      <Link to={`/?site=${encodeURIComponent(row.site.id)}`} className="flex items-center gap-2 text-gray-200 hover:text-purple-300">
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: row.color }} />
+                        {row.site.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right text-purple-400 font-medium">{row.pageviews.toLocaleString()}</TableCell>
+                    <TableCell className="text-right text-gray-400">{share(row.pageviews, totals.pageviews).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right text-pink-400 font-medium">{row.visitors.toLocaleString()}</TableCell>
+                    <TableCell className="text-right text-teal-400 font-medium">{formatBytes(row.bandwidth)}</TableCell>
+                    <TableCell className="text-right text-gray-400">{share(row.bandwidth, totals.bandwidth).toFixed(1)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter className="bg-transparent border-white/10">
+                <TableRow className="hover:bg-transparent">
+                  <TableCell className="text-gray-300 font-semibold">Total</TableCell>
+                  <TableCell className="text-right text-gray-200 font-semibold">{totals.pageviews.toLocaleString()}</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right text-gray-200 font-semibold">{totals.visitors.toLocaleString()}</TableCell>
+                  <TableCell className="text-right text-gray-200 font-semibold">{formatBytes(totals.bandwidth)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Portfolio;
@@ -0,0 +1,209 @@
+import { useMemo, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Link, Navigate, useLocation, useParams, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Download, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ComparisonSelector from "@/components/ComparisonSelector";
+import NormalizePathsToggle from "@/components/NormalizePathsToggle";
+import RankingTable from "@/components/RankingTable";
+import TimeRangeSelector from "@/components/TimeRangeSelector";
+import {
+  Comparison,
+  exportToCsv,
+  getRanking,
+  getSites,
+  MAX_RANKING_LIMIT,
+  PATH_NORMALIZATION_STEPS,
+  RankingName,
+  RankingRow,
+  RANKINGS,
+  TimeRange,
+} from "@/services/netlifyApi";
+import { normalizeRanking } from "@/lib/paths";
+import { getTimeRangeLabel } from "@/lib/timeRanges";
+
+interface RankingView {
+  title: string;
+  resourceLabel: string;
+  countLabel: string;
+  accentClassName: string;
+  formatResource?: (row: RankingRow) => string;
+  // More of this ranking is bad news
+  invertDelta?: boolean;
+  // Resources are URL paths, so variants can be merged
+  paths?: boolean;
+}
+
+const RANKING_VIEWS: Record<RankingName, RankingView> = {
+  pages: { title: 'Pages', resourceLabel: 'Page', countLabel: 'Views', accentClassName: 'text-purple-400', paths: true },
+  sources: {
+    title: 'Sources',
+    resourceLabel: 'Source',
+    countLabel: 'Referrals',
+    accentClassName: 'text-indigo-400',
+    formatResource: (row) => row.resource === '(direct)' ? 'Direct' : row.resource,
+  },
+  countries: {
+    title: 'Countries',
+    resourceLabel: 'Country',
+    countLabel: 'Views',
+    accentClassName: 'text-orange-400',
+    formatResource: (row) => row.country_name ? `${row.country_name} (${row.resource})` : row.resource,
+  },
+  not_found: {
+    title: 'Not Found (404s)',
+    resourceLabel: 'Path',
+    countLabel: 'Hits',
+    accentClassName: 'text-red-400',
+    invertDelta: true,
+    paths: true,
+  },
+};
+
+const LIMIT_OPTIONS = [25, 50, MAX_RANKING_LIMIT];
+
+const isRankingName = (value: string | undefined): value is RankingName =>
+  value !== undefined && Object.prototype.hasOwnProperty.call(RANKINGS, value);
+
+// Full table for one ranking; the dashboard links here with its time range and comparison in location state
+const Ranking = () => {
+  const { name } = useParams();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const linkState = location.state as { timeRange?: TimeRange; comparison?: Comparison; normalizePaths?: boolean } | null;
+  const [timeRange, setTimeRange] = useState<TimeRange>(linkState?.timeRange ?? '30d');
+  const [comparison, setComparison] = useState<Comparison | undefined>(linkState?.comparison);
+  const [limit, setLimit] = useState(MAX_RANKING_LIMIT);
+  const [search, setSearch] = useState('');
+  const [normalizePaths, setNormalizePaths] = useState(linkState?.normalizePaths ?? true);
+
+  const { data: sites = [] } = useQuery({
+    queryKey: ['sites'],
+    queryFn: getSites,
+    staleTime: Infinity,
+  });
+
+  const site = sites.find(s => s.id === searchParams.get('site')) ?? sites[0];
+  const siteId = site?.id;
+  const rankingName = isRankingName(name) ? name : undefined;
+
+  const { data, isPending } = useQuery({
+    queryKey: ['ranking', siteId, rankingName, timeRange, limit, comparison],
+    queryFn: () => getRanking(siteId, rankingName, timeRange, limit, comparison),
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    enabled: !!siteId && !!rankingName,
+    placeholderData: keepPreviousData,
+  });
+
+  // Memoised so the table keeps its page between renders; it starts over when its rows change
+  const pathRanking = rankingName !== undefined && RANKING_VIEWS[rankingName].paths;
+  const siteSteps = site?.pathNormalization;
+  const ranking = useMemo(
+    () => normalizeRanking(data, pathRanking && normalizePaths ? siteSteps ?? PATH_NORMALIZATION_STEPS : []),
+    [data, pathRanking, normalizePaths, siteSteps]
+  );
+
+  if (!rankingName) return <Navigate to="/" replace />;
+
+  const view = RANKING_VIEWS[rankingName];
+  const rows = ranking?.data ?? [];
+  const previous = ranking?.previous;
+  const backLink = siteId ? `/?site=${encodeURIComponent(siteId)}` : '/';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-slate-900 to-slate-800 text-white p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent">
+              {view.title}
+            </h1>
+            <p className="text-gray-400 mt-2">
+              {site?.name ?? 'Site'}, {getTimeRangeLabel(timeRange).toLowerCase()}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+            <TimeRangeSelector value={timeRange} onChange={setTimeRange} />
+            <ComparisonSelector value={comparison} onChange={setComparison} />
+            <Button asChild variant="ghost" className="text-gray-400 hover:bg-slate-700 hover:text-gray-200 transition-colors text-xs px-2 py-1">
+              <Link to={backLink}><ArrowLeft className="mr-1 h-3 w-3" /> Dashboard</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-white/5 backdrop-blur-lg border-white/10">
+          <CardHeader className="flex flex-col sm:flex-row gap-4 justify-between sm:items-center">
+            <CardTitle className="text-xl font-semibold text-gray-200">
+              Top {rows.length.toLocaleString()} {view.title.toLowerCase()}
+            </CardTitle>
+            <div className="flex flex-wrap gap-2">
+              {view.paths && <NormalizePathsToggle pressed={normalizePaths} onPressedChange={setNormalizePaths} />}
+              <div className="relative">
+                <Search className="absolute left-2 top-2 h-4 w-4 text-gray-500" />
+                <Input
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  placeholder={`Search ${view.resourceLabel.toLowerCase()}s`}
+                  className="h-8 w-[220px] pl-8 bg-slate-800 border-none text-sm text-gray-200 placeholder:text-gray-500"
+                />
+              </div>
+              <Select value={String(limit)} onValueChange={(next) => setLimit(Number(next))}>
+                <SelectTrigger className="h-8 w-[110px] bg-slate-800 border-none text-sm text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark bg-slate-900 border-white/10 text-white">
+                  {LIMIT_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>Top {option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => exportToCsv(rows, rankingName, site?.name)}
+                disabled={rows.length === 0}
+                className="text-purple-400 border-purple-400/50 hover:bg-purple-900/50 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="mr-2 h-4 w-4" /> Export all
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isPending && rows.length === 0 ? (
+              <div className="flex items-center justify-center h-24 text-gray-500">Loading…</div>
+            ) : (
+              <RankingTable
+                rows={rows}
+                search={search}
+                resourceLabel={view.resourceLabel}
+                countLabel={view.countLabel}
+                formatResource={view.formatResource}
+                accentClassName={view.accentClassName}
+                previousRows={previous && !previous.error ? previous.data : undefined}
+                invertDelta={view.invertDelta}
+              />
+            )}
+            <p className="text-xs text-gray-500 pt-4">
+              Share is of the top {rows.length.toLocaleString()} listed.
+              {previous?.error
+                ? ` Comparison unavailable: ${previous.error}.`
+                : previous && ` Change is against ${new Date(previous.from).toLocaleDateString()} – ${new Date(previous.to).toLocaleDateString()}.`}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Ranking;
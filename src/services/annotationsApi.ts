@@ -0,0 +1,35 @@
+import { Annotation, AnnotationInput, annotationSchema } from "@shared/analytics";
+import { sendToFunction } from "@/services/authApi";
+
+export { ANNOTATION_COLORS } from "@shared/analytics";
+export type { Annotation, AnnotationInput } from "@shared/analytics";
+
+const annotationsUrl = '/.netlify/functions/annotations';
+
+const urlFor = (siteId: string, query: Record<string, string | undefined> = {}) => {
+  const params = new URLSearchParams({ siteId });
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, value);
+  }
+  return `${annotationsUrl}?${params}`;
+};
+
+// Annotations touching the calendar days [from, to]
+export const getAnnotations = async (siteId: string, from?: string, to?: string): Promise<Annotation[]> => {
+  const parsed = annotationSchema.array().safeParse(await sendToFunction(urlFor(siteId, { from, to })));
+  if (!parsed.success) {
+    console.error("Unexpected annotations payload:", parsed.error.issues);
+    return [];
+  }
+  return parsed.data;
+};
+
+export const createAnnotation = async (siteId: string, input: AnnotationInput): Promise<Annotation> =>
+  annotationSchema.parse(await sendToFunction(urlFor(siteId), { method: 'POST', body: JSON.stringify(input) }));
+
+export const updateAnnotation = async (siteId: string, id: string, input: AnnotationInput): Promise<Annotation> =>
+  annotationSchema.parse(await sendToFunction(urlFor(siteId, { id }), { method: 'PUT', body: JSON.stringify(input) }));
+
+export const deleteAnnotation = async (siteId: string, id: string): Promise<void> => {
+  await sendToFunction(urlFor(siteId, { id }), { method: 'DELETE' });
+};
@@ -0,0 +1,69 @@
+const authUrl = '/.netlify/functions/auth';
+
+export interface SessionState {
+  authRequired: boolean;
+  authenticated: boolean;
+  expiresAt: number | null;
+}
+
+export const getSession = async (): Promise<SessionState> => {
+  const response = await fetch(authUrl, { credentials: 'same-origin' });
+  if (!response.ok) {
+    throw new Error(`Failed to load session: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const login = async (password: string): Promise<SessionState> => {
+  const response = await fetch(authUrl, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || response.statusText);
+  }
+  return body;
+};
+
+export const logout = async (): Promise<void> => {
+  await fetch(authUrl, { method: 'DELETE', credentials: 'same-origin' });
+};
+
+// Called when the proxy rejects a request because the session expired or was never started.
+// `next` keeps the query string too, so the site and other URL state survive logging in again
+export const redirectToLogin = () => {
+  if (window.location.pathname !== '/login') {
+    window.location.assign(`/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`);
+  }
+};
+
+// True only for the functions' own "please log in" answer (see netlify/lib/session.ts), not for
+// any other 401. Reads a clone, so the caller can still consume the body.
+export const isSessionRejected = async (response: Response): Promise<boolean> => {
+  if (response.status !== 401) return false;
+  const body = await response.clone().json().catch(() => null);
+  return body?.code === 'UNAUTHORIZED';
+};
+
+// JSON call to one of the dashboard's own functions, resolving to its `data`. Throws with the
+// function's own error message, so callers can show it in a toast
+export const sendToFunction = async (url: string, init: RequestInit = {}): Promise<unknown> => {
+  const response = await fetch(url, {
+    ...init,
+    credentials: 'same-origin',
+    headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (await isSessionRejected(response)) {
+    redirectToLogin();
+    throw new Error('Not logged in');
+  }
+  if (response.status === 204) return null;
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || response.statusText);
+  }
+  return body.data;
+};
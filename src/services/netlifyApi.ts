@@ -1,246 +1,461 @@
 import { toast } from "sonner";
-interface DataPoint {
+import { isSessionRejected, redirectToLogin } from "@/services/authApi";
+import { formatBytes } from "@/lib/utils";
+
+import {
+  BandwidthResponse,
+  BatchResponse,
+  Comparison,
+  ComparisonRange,
+  comparisonRangeSchema,
+  CustomTimeRange,
+  Deploy,
+  deploysResponseSchema,
+  Endpoint,
+  EndpointResponse,
+  Granularity,
+  MAX_RANKING_LIMIT,
+  ProxyErrorBody,
+  RangeExpression,
+  RankingName,
+  RANKINGS,
+  RankingResponse,
+  RESPONSE_SCHEMAS,
+  Site,
+  siteSchema,
+  TimeSeriesRow,
+} from "@shared/analytics";
+
+export {
+  COMPARISONS,
+  GRANULARITIES,
+  MAX_HOURLY_RANGE_DAYS,
+  MAX_RANKING_LIMIT,
+  PATH_NORMALIZATION_STEPS,
+  RANKINGS,
+} from "@shared/analytics";
+
+export type {
+  BandwidthRecord,
+  CalendarRange,
+  Comparison,
+  ComparisonRange,
+  ContentGroup,
+  ContentGroupRule,
+  CustomTimeRange,
+  Deploy,
+  Granularity,
+  PathNormalizationStep,
+  ProxyErrorCode,
+  RangeExpression,
+  RankingName,
+  RankingRow,
+  RollingRange,
+  Site,
+} from "@shared/analytics";
+
+// Timeseries tuples are turned into named points as soon as they arrive
+export interface DataPoint {
   timestamp: number;
   value: number;
 }
 
-interface CountryData {
-  count: number;
-  country_name: string;
-  resource: string;
+export interface TimeSeriesResponse {
+  data: DataPoint[];
 }
 
-interface SourceData {
-  count: number;
-  resource: string;
-}
+export type { BandwidthResponse, RankingResponse };
 
-interface PageData {
-  count: number;
-  resource: string;
-}
+type PayloadFor<E extends Endpoint> =
+  E extends '/pageviews' | '/visitors' ? TimeSeriesResponse : EndpointResponse<E>;
 
-interface BandwidthData {
-  start: number;
-  end: number;
-  siteBandwidth: number;
-  accountBandwidth: number;
-}
+// A response plus, when a comparison was requested, the same endpoint over the earlier period
+export type Compared<T> = T & { previous?: T & ComparisonRange };
 
-interface BandwidthResponse {
-  data: BandwidthData[];
-}
+// What the client hands to the UI for each endpoint
+export type ClientResponse<E extends Endpoint> = Compared<PayloadFor<E>>;
 
-interface GenericRankingResponse {
-  data: (SourceData | PageData | CountryData)[];
-}
+export type TimeRange = RangeExpression | CustomTimeRange;
 
-interface TimeSeriesResponse {
-  data: DataPoint[];
-}
+export const isCustomTimeRange = (timeRange: TimeRange): timeRange is CustomTimeRange =>
+  typeof timeRange === 'object' && timeRange !== null;
+
+// Human readable form used in logs, toasts and card captions
+export const describeTimeRange = (timeRange: TimeRange): string =>
+  isCustomTimeRange(timeRange)
+    ? `${new Date(timeRange.from).toLocaleDateString()} – ${new Date(timeRange.to).toLocaleDateString()}`
+    : timeRange;
+
+// Sites configured on the proxy (NETLIFY_SITES / NETLIFY_SITE_ID)
+export const getSites = async (): Promise<Site[]> => {
+  const response = await fetch('/.netlify/functions/sites');
+  if (await isSessionRejected(response)) {
+    redirectToLogin();
+    return [];
+  }
+  if (!response.ok) {
+    console.error("Failed to load configured sites:", response.status, response.statusText);
+    toast.error("Failed to load configured sites. Check console.");
+    return [];
+  }
+  const parsed = siteSchema.array().safeParse((await response.json())?.data);
+  if (!parsed.success) {
+    console.error("Unexpected sites response:", parsed.error.issues);
+    return [];
+  }
+  return parsed.data;
+};
+
+const functionUrl = '/.netlify/functions/api'; // Default path, change if you set config.path
+const deploysUrl = '/.netlify/functions/deploys';
+
+// Turns a proxy error body into a short message for toasts and card placeholders
+const describeProxyError = (errorData: ProxyErrorBody | null | undefined, fallback: string): string => {
+  const retryHint = errorData?.retryAfter ? `, try again in ${errorData.retryAfter}s` : '';
+  switch (errorData?.code) {
+    case 'UPSTREAM_RATE_LIMITED':
+      return `Netlify API rate limit reached${retryHint}`;
+    case 'UPSTREAM_CIRCUIT_OPEN':
+      return `Netlify API is failing, requests paused${retryHint}`;
+    case 'UPSTREAM_TIMEOUT':
+      return 'Netlify API timed out';
+    default:
+      return errorData?.error || fallback;
+  }
+};
 
-type EmptyResponse = { data: [] };
+const rangeBodyFor = (timeRange: TimeRange) =>
+  isCustomTimeRange(timeRange)
+    ? { from: timeRange.from, to: timeRange.to }
+    : { timeRange };
+
+const postToProxy = (body: Record<string, unknown>, url = functionUrl): Promise<Response> => {
+  // Get client timezone to send to the function
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Client-Timezone': timezone, // Send timezone as a header
+    },
+    body: JSON.stringify(body),
+  });
+};
 
-export type TimeRange = '7d' | '30d' | '3m' | '1y';
+// Checks a proxy payload against the shared schema for its endpoint; null when it doesn't match
+const parseResponse = <E extends Endpoint>(endpoint: E, json: unknown): PayloadFor<E> | null => {
+  const parsed = RESPONSE_SCHEMAS[endpoint].safeParse(json);
+  if (!parsed.success) {
+    console.warn(`Proxy response for ${endpoint} does not match the expected shape:`, parsed.error.issues, json);
+    return null;
+  }
+  if (endpoint === '/pageviews' || endpoint === '/visitors') {
+    const rows = (parsed.data as { data: TimeSeriesRow[] }).data;
+    return { data: rows.map(([timestamp, value]) => ({ timestamp, value })) } as PayloadFor<E>;
+  }
+  return parsed.data as PayloadFor<E>;
+};
+
+// Attaches the comparison period the proxy sent alongside a payload, if it is usable
+const withPrevious = <E extends Endpoint>(endpoint: E, payload: PayloadFor<E>, previous: unknown): ClientResponse<E> => {
+  if (previous === undefined) return payload as ClientResponse<E>;
+  const range = comparisonRangeSchema.safeParse(previous);
+  const data = parseResponse(endpoint, previous);
+  if (!range.success || !data) return payload as ClientResponse<E>;
+  if (range.data.error) console.warn(`Comparison period for ${endpoint} unavailable:`, range.data.error);
+  return { ...payload, previous: { ...data, ...range.data } } as ClientResponse<E>;
+};
+
+interface FetchOptions {
+  // Timeseries only: the proxy resamples points into buckets of this size
+  granularity?: Granularity;
+  comparison?: Comparison;
+}
+
+const emptyResponse = <E extends Endpoint>(): ClientResponse<E> => ({ data: [] }) as ClientResponse<E>;
 
 // This function now calls our Netlify Function proxy
-const fetchNetlifyData = async (
-  endpoint: string,
+const fetchNetlifyData = async <E extends Endpoint>(
+  siteId: string,
+  endpoint: E,
   params?: Record<string, string | number>,
-  timeRange: TimeRange = '30d'
-): Promise<any | EmptyResponse> => {
-  const functionUrl = '/.netlify/functions/api'; // Default path, change if you set config.path
+  timeRange: TimeRange = '30d',
+  { granularity, comparison }: FetchOptions = {}
+): Promise<ClientResponse<E>> => {
+  const rangeLabel = describeTimeRange(timeRange);
 
-  console.log("Calling proxy function:", functionUrl, "for endpoint:", endpoint, "time range:", timeRange);
+  console.log("Calling proxy function:", functionUrl, "for endpoint:", endpoint, "time range:", rangeLabel);
 
   try {
-    // Get client timezone to send to the function
-    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-
-    const response = await fetch(functionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Client-Timezone': timezone, // Send timezone as a header
-      },
-      body: JSON.stringify({
-        endpoint,
-        params,
-        timeRange,
-      }),
+    const response = await postToProxy({
+      siteId,
+      endpoint,
+      params: granularity ? { ...params, granularity } : params,
+      ...rangeBodyFor(timeRange),
+      compare: comparison,
     });
 
+    if (await isSessionRejected(response)) {
+       console.warn(`Proxy rejected ${endpoint} (${rangeLabel}): not logged in or session expired.`);
+       redirectToLogin();
+       return emptyResponse<E>();
+    }
+
     if (!response.ok) {
-       let errorData;
+       let errorData: ProxyErrorBody;
        try {
            errorData = await response.json(); // Try to parse error details from function
            console.error("Proxy Function Error Response:", response.status, response.statusText, errorData);
-           toast.error(`API Error fetching ${endpoint} (${timeRange}): ${errorData.error || response.statusText}. Check console.`);
+           toast.error(`API Error fetching ${endpoint} (${rangeLabel}): ${describeProxyError(errorData, response.statusText)}. Check console.`);
        } catch (parseError) {
            const errorBody = await response.text(); // Fallback to text
            console.error("Proxy Function Error (non-JSON):", response.status, response.statusText, errorBody);
-           toast.error(`API Error fetching ${endpoint} (${timeRange}): ${response.statusText}. Check console.`);
+           toast.error(`API Error fetching ${endpoint} (${rangeLabel}): ${response.statusText}. Check console.`);
        }
-       return { data: [] }; // Return empty on error
+       return emptyResponse<E>(); // Return empty on error
     }
 
-    const jsonData = await response.json();
+    const jsonData: unknown = await response.json();
 
     // Logging received data (optional, but can be helpful)
-    console.log(`Received data for ${endpoint} (${timeRange}) from proxy:`, jsonData);
+    console.log(`Received data for ${endpoint} (${rangeLabel}) from proxy:`, jsonData);
 
-    // Basic validation: ensure 'data' property exists, even if it's empty
-    if (typeof jsonData !== 'object' || jsonData === null || !jsonData.hasOwnProperty('data')) {
-        console.warn(`Proxy response for ${endpoint} (${timeRange}) is missing 'data' property. Returning empty. Response:`, jsonData);
-        toast.error(`Unexpected data format received for ${endpoint} (${timeRange}).`);
-        return { data: [] };
+    const parsed = parseResponse(endpoint, jsonData);
+    if (!parsed) {
+        toast.error(`Unexpected data format received for ${endpoint} (${rangeLabel}).`);
+        return emptyResponse<E>();
     }
 
-
-    return jsonData; // Return the data received from the proxy function
-  } catch (error: any) {
+    return withPrevious(endpoint, parsed, (jsonData as { previous?: unknown }).previous);
+  } catch (error) {
      // Network errors or other issues calling the proxy function itself
-     console.error(`Error calling proxy function for ${endpoint} (${timeRange}):`, error);
-     toast.error(`Failed calling API proxy for ${endpoint} (${timeRange}). Check console.`);
-     return { data: [] };
+     console.error(`Error calling proxy function for ${endpoint} (${rangeLabel}):`, error);
+     toast.error(`Failed calling API proxy for ${endpoint} (${rangeLabel}). Check console.`);
+     return emptyResponse<E>();
   }
 };
 
+// Endpoints behind each dashboard card, shared by the single-card getters and getDashboard
+const DASHBOARD_ENDPOINTS = {
+  pageViews: { endpoint: '/pageviews' },
+  visitors: { endpoint: '/visitors' },
+  countries: { endpoint: '/ranking/countries' },
+  // Everything up to the cap, so the channel breakdown isn't built from the top ten alone
+  sources: { endpoint: '/ranking/sources', params: { limit: MAX_RANKING_LIMIT } },
+  // Also the input for content groups, hence more than the Top Pages card lists
+  pages: { endpoint: '/ranking/pages', params: { limit: MAX_RANKING_LIMIT } },
+  bandwidth: { endpoint: '/bandwidth' },
+  // As many as upstream allows, so the 404 card's unresolved count isn't limited to a short list
+  notFound: { endpoint: '/ranking/not_found', params: { limit: MAX_RANKING_LIMIT } },
+} satisfies Record<string, { endpoint: Endpoint; params?: Record<string, string | number> }>;
+
+export type DashboardKey = keyof typeof DASHBOARD_ENDPOINTS;
+
+type DashboardEndpoint<K extends DashboardKey> = typeof DASHBOARD_ENDPOINTS[K]['endpoint'];
+
+const DASHBOARD_KEYS = Object.keys(DASHBOARD_ENDPOINTS) as DashboardKey[];
+
+const fetchDashboardEndpoint = <K extends DashboardKey>(siteId: string, key: K, timeRange: TimeRange, options?: FetchOptions) => {
+  const { endpoint, params } = DASHBOARD_ENDPOINTS[key] as { endpoint: DashboardEndpoint<K>; params?: Record<string, string | number> };
+  return fetchNetlifyData(siteId, endpoint, params, timeRange, options);
+};
+
 // Exported functions remain the same, they just use the updated fetchNetlifyData
-export const getPageViews = (timeRange: TimeRange): Promise<TimeSeriesResponse | EmptyResponse> =>
-  fetchNetlifyData('/pageviews', undefined, timeRange);
-export const getVisitors = (timeRange: TimeRange): Promise<TimeSeriesResponse | EmptyResponse> =>
-  fetchNetlifyData('/visitors', undefined, timeRange);
-export const getCountries = (timeRange: TimeRange): Promise<GenericRankingResponse | EmptyResponse> =>
-  fetchNetlifyData('/ranking/countries', undefined, timeRange);
-export const getBandwidth = (timeRange: TimeRange): Promise<BandwidthResponse | EmptyResponse> =>
-  fetchNetlifyData('/bandwidth', undefined, timeRange);
-export const getSources = (timeRange: TimeRange): Promise<GenericRankingResponse | EmptyResponse> =>
-  fetchNetlifyData('/ranking/sources', { limit: 10 }, timeRange);
-export const getPages = (timeRange: TimeRange): Promise<GenericRankingResponse | EmptyResponse> =>
-  fetchNetlifyData('/ranking/pages', { limit: 15 }, timeRange);
-export const getNotFound = (timeRange: TimeRange): Promise<GenericRankingResponse | EmptyResponse> =>
-  fetchNetlifyData('/ranking/not_found', { limit: 15 }, timeRange);
-
-// formatBytes remains the same
-const formatBytes = (bytes: number, decimals = 2): string => {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-}
+export const getPageViews = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<TimeSeriesResponse>> =>
+  fetchDashboardEndpoint(siteId, 'pageViews', timeRange, options);
+export const getVisitors = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<TimeSeriesResponse>> =>
+  fetchDashboardEndpoint(siteId, 'visitors', timeRange, options);
+export const getCountries = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<RankingResponse>> =>
+  fetchDashboardEndpoint(siteId, 'countries', timeRange, options);
+export const getBandwidth = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<BandwidthResponse>> =>
+  fetchDashboardEndpoint(siteId, 'bandwidth', timeRange, options);
+export const getSources = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<RankingResponse>> =>
+  fetchDashboardEndpoint(siteId, 'sources', timeRange, options);
+export const getPages = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<RankingResponse>> =>
+  fetchDashboardEndpoint(siteId, 'pages', timeRange, options);
+export const getNotFound = (siteId: string, timeRange: TimeRange, options?: FetchOptions): Promise<Compared<RankingResponse>> =>
+  fetchDashboardEndpoint(siteId, 'notFound', timeRange, options);
+
+// Up to `limit` rows of one ranking, for the full table views
+export const getRanking = (siteId: string, name: RankingName, timeRange: TimeRange, limit: number, comparison?: Comparison): Promise<Compared<RankingResponse>> =>
+  fetchNetlifyData(siteId, RANKINGS[name], { limit }, timeRange, { comparison });
+
+// A card's data plus, when its endpoint failed, the reason (the other cards are unaffected)
+export type DashboardEntry<K extends DashboardKey> = ClientResponse<DashboardEndpoint<K>> & { error?: string };
+
+export type DashboardData = { [K in DashboardKey]: DashboardEntry<K> };
+
+const emptyDashboard = (error?: string): DashboardData =>
+  Object.fromEntries(DASHBOARD_KEYS.map(key => [key, { data: [], error }])) as DashboardData;
+
+// Fetches every card's dataset in one batch request to the proxy
+export const getDashboard = async (siteId: string, timeRange: TimeRange, comparison?: Comparison): Promise<DashboardData> => {
+  const rangeLabel = describeTimeRange(timeRange);
+
+  console.log("Calling proxy function:", functionUrl, "for dashboard batch, time range:", rangeLabel);
 
-// exportToCsv remains largely the same, but check data structure assumptions
-export const exportToCsv = (data: any[], filename: string) => {
-  if (!data || data.length === 0) {
-    toast.error("No data available to export.");
-    return;
-  }
+  try {
+    const response = await postToProxy({
+      siteId,
+      batch: DASHBOARD_KEYS.map(key => ({ key, ...DASHBOARD_ENDPOINTS[key] })),
+      ...rangeBodyFor(timeRange),
+      compare: comparison,
+    });
 
-  // Add extra check: If data looks like { data: [...] }, extract the inner array
-  let actualData = data;
-  if (Array.isArray(data) && data.length === 1 && data[0]?.data && Array.isArray(data[0].data)) {
-      console.warn("Exporting data that seems wrapped in an extra object layer, extracting inner .data array");
-      actualData = data[0].data;
-  } else if (data && (data as any).data && Array.isArray((data as any).data)) {
-       console.warn("Exporting data that seems wrapped in an extra object layer, extracting inner .data array (non-array input)");
-       actualData = (data as any).data;
+    if (await isSessionRejected(response)) {
+       console.warn(`Proxy rejected dashboard batch (${rangeLabel}): not logged in or session expired.`);
+       redirectToLogin();
+       return emptyDashboard();
+    }
+
+    if (!response.ok) {
+       const errorData: ProxyErrorBody | null = await response.json().catch(() => null);
+       const message = describeProxyError(errorData, response.statusText);
+       console.error("Proxy Function Error Response:", response.status, response.statusText, errorData);
+       toast.error(`API Error fetching dashboard (${rangeLabel}): ${message}. Check console.`);
+       return emptyDashboard(message);
+    }
+
+    const jsonData: Partial<BatchResponse> | null = await response.json();
+    console.log(`Received dashboard batch (${rangeLabel}) from proxy:`, jsonData);
+
+    return Object.fromEntries(DASHBOARD_KEYS.map(key => {
+      const result = jsonData?.results?.[key];
+      const { endpoint } = DASHBOARD_ENDPOINTS[key];
+      const parsed = result?.ok ? parseResponse(endpoint, result.data) : null;
+      if (parsed) {
+        return [key, withPrevious(endpoint, parsed, result.ok ? result.previous : undefined)];
+      }
+      const error = result?.ok
+        ? 'Unexpected data format'
+        : describeProxyError(result, 'Missing from batch response');
+      console.error(`Batch entry ${endpoint} (${rangeLabel}) failed:`, result);
+      toast.error(`API Error fetching ${endpoint} (${rangeLabel}): ${error}. Check console.`);
+      return [key, { data: [], error }];
+    })) as DashboardData;
+  } catch (error) {
+     // Network errors or other issues calling the proxy function itself
+     console.error(`Error calling proxy function for dashboard batch (${rangeLabel}):`, error);
+     toast.error(`Failed calling API proxy for dashboard (${rangeLabel}). Check console.`);
+     return emptyDashboard('Failed calling API proxy');
   }
+};
+
+// Lowercase, dash-separated form of a site name for use in download filenames
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
 
-  if (!actualData || actualData.length === 0) {
-       toast.error("No valid data found after potential unwrapping.");
-       return;
-   }
+type CsvRow = Record<string, unknown>;
 
+// `filename` picks the column layout; `siteName`, when given, prefixes the downloaded file.
+// Timeseries exports take DataPoint rows, ranking and bandwidth exports take upstream rows,
+// and anything else is written with its own keys as columns.
+export const exportToCsv = (data: readonly object[], filename: string, siteName?: string) => {
+  const downloadName = siteName ? `${slugify(siteName)}-${filename}.csv` : `${filename}.csv`;
 
+  if (!data || data.length === 0) {
+    toast.error("No data available to export.");
+    return;
+  }
+
+  const actualData = data as readonly CsvRow[];
   const firstItem = actualData[0];
-   // Check added for Array.isArray(firstItem) for pageviews/visitors
-  if (!firstItem || (typeof firstItem !== 'object' && !Array.isArray(firstItem)) || Object.keys(firstItem).length === 0) {
+  if (!firstItem || typeof firstItem !== 'object' || Object.keys(firstItem).length === 0) {
      toast.error("Data format is invalid for export.");
      console.error("Invalid first item for export:", firstItem);
      return;
   }
 
-
-  let processedData = actualData;
-  let headersOrder: string[] | null = null;
+  let processedData: readonly CsvRow[] = actualData;
+  let headersOrder: string[];
 
   // --- Logic for different filenames ---
-   if (filename === 'bandwidth' && actualData.length > 0 && firstItem.siteBandwidth !== undefined) {
+  if (filename === 'bandwidth' && firstItem.siteBandwidth !== undefined) {
       headersOrder = ['siteBandwidth', 'accountBandwidth', 'start', 'end'];
       processedData = actualData.map(item => ({
-          siteBandwidth: formatBytes(item.siteBandwidth),
-          accountBandwidth: formatBytes(item.accountBandwidth),
-          start: item.start ? new Date(item.start).toLocaleString() : 'N/A', // Add check for start/end
-          end: item.end ? new Date(item.end).toLocaleString() : 'N/A'
+          siteBandwidth: formatBytes(Number(item.siteBandwidth)),
+          // Archive-only ranges have no account figure
+          accountBandwidth: typeof item.accountBandwidth === 'number' ? formatBytes(item.accountBandwidth) : 'N/A',
+          start: item.start ? new Date(Number(item.start)).toLocaleString() : 'N/A',
+          end: item.end ? new Date(Number(item.end)).toLocaleString() : 'N/A'
       }));
-  } else if (filename === 'not_found' && actualData.length > 0 && firstItem.resource !== undefined) {
-     headersOrder = ['resource', 'count'];
-  } else if (filename === 'countries' && actualData.length > 0 && firstItem.resource !== undefined) {
-      // Make sure country_name exists if needed
+  } else if (filename === 'countries' && firstItem.resource !== undefined) {
       headersOrder = firstItem.country_name !== undefined ? ['resource', 'country_name', 'count'] : ['resource', 'count'];
-  } else if (filename === 'sources' && actualData.length > 0 && firstItem.resource !== undefined) {
+  } else if (filename === 'sources' && firstItem.channel !== undefined) {
+      headersOrder = ['resource', 'channel', 'count'];
+  } else if (filename === 'channels' && firstItem.channel !== undefined) {
+      headersOrder = ['channel', 'count'];
+  } else if (filename === 'content_groups' && firstItem.group !== undefined) {
+      headersOrder = ['group', 'count', 'pages'];
+  } else if (['not_found', 'sources', 'pages'].includes(filename) && firstItem.resource !== undefined) {
       headersOrder = ['resource', 'count'];
-  } else if (filename === 'pages' && actualData.length > 0 && firstItem.resource !== undefined) {
-      headersOrder = ['resource', 'count'];
-   // Updated check for pageviews/visitors to ensure firstItem is an array
-  } else if ((filename === 'pageviews' || filename === 'visitors') && actualData.length > 0 && Array.isArray(firstItem)) {
-      // Data is expected as [[timestamp, value], [timestamp, value], ...]
-      // The data passed to exportToCsv from Analytics.tsx is already formatted correctly
-      const headerRow = ["Date", "Count"];
-      // Ensure rows are arrays before joining
-      const rows = processedData.map(row => Array.isArray(row) ? row.join(",") : '');
-      const csvContent = "data:text/csv;charset=utf-8," + headerRow.join(",") + "\n" + rows.join("\n");
-
-       const encodedUri = encodeURI(csvContent);
-       const link = document.createElement("a");
-       link.setAttribute("href", encodedUri);
-       link.setAttribute("download", `${filename}.csv`);
-       document.body.appendChild(link);
-       link.click();
-       document.body.removeChild(link);
-       toast.success(`Exported ${filename}.csv successfully!`);
-       return; // Exit early for this specific format
+  } else if ((filename === 'pageviews' || filename === 'visitors') && firstItem.timestamp !== undefined) {
+      // Rows may carry the chart notes that overlap them, see withAnnotationLabels
+      const annotated = firstItem.annotations !== undefined;
+      headersOrder = annotated ? ['Date', 'Count', 'Annotations'] : ['Date', 'Count'];
+      // Hourly series keep the time of day
+      const hourly = actualData.length > 1 && Number(actualData[1].timestamp) - Number(actualData[0].timestamp) < 24 * 60 * 60 * 1000;
+      processedData = actualData.map(item => ({
+          Date: hourly ? new Date(Number(item.timestamp)).toLocaleString() : new Date(Number(item.timestamp)).toLocaleDateString(),
+          Count: item.value,
+          Annotations: item.annotations,
+      }));
+  } else {
+      // Portfolio rows and the like are built with their columns already in display order
+      if (!filename.startsWith('portfolio_')) console.warn(`Using default object keys for export format: ${filename}`);
+      headersOrder = Object.keys(firstItem);
   }
-   // --- Fallback/Default Logic ---
-   else if (actualData.length > 0 && typeof firstItem === 'object' && !Array.isArray(firstItem)) {
-       // Fallback if no specific format matched but it's an array of objects
-       console.warn(`Using default object keys for export format: ${filename}`);
-       headersOrder = Object.keys(firstItem);
-   } else {
-       toast.error(`Cannot determine export format for ${filename}.`);
-       console.error("Unhandled data format for export:", actualData);
-       return;
-   }
-
-
-  // --- CSV Generation (for object arrays) ---
-  const headers = headersOrder ? headersOrder.join(",") : ''; // Should always have headersOrder if we reach here
-
-  const rows = processedData.map(row => {
-      // Ensure row is an object before processing
-       if (typeof row !== 'object' || row === null) return '';
-      const orderedValues = headersOrder ? headersOrder.map(header => row[header]) : Object.values(row);
-      return orderedValues.map(value => {
-          const stringValue = String(value ?? ''); // Handle null/undefined
-          // Escape double quotes and wrap in double quotes if value contains a comma or double quote
-          const needsQuotes = stringValue.includes(',') || stringValue.includes('"');
-          const escapedValue = stringValue.replace(/"/g, '""');
-          return needsQuotes ? `"${escapedValue}"` : escapedValue;
-      }).join(",");
-  });
 
-  const csvContent = "data:text/csv;charset=utf-8," +
-    headers + "\n" + rows.join("\n");
+  // --- CSV Generation ---
+  const headers = headersOrder.join(",");
+
+  const rows = processedData.map(row => headersOrder.map(header => {
+      const stringValue = String(row[header] ?? ''); // Handle null/undefined
+      // Escape double quotes and wrap in double quotes if value contains a comma, double quote or line break
+      const needsQuotes = /[",\r\n]/.test(stringValue);
+      const escapedValue = stringValue.replace(/"/g, '""');
+      return needsQuotes ? `"${escapedValue}"` : escapedValue;
+  }).join(","));
+
+  const csvContent = headers + "\n" + rows.join("\n");
 
-  const encodedUri = encodeURI(csvContent);
+  // Component encoding, so free text such as annotation labels can't cut the URI short at a '#'
+  const encodedUri = "data:text/csv;charset=utf-8," + encodeURIComponent(csvContent);
   const link = document.createElement("a");
   link.setAttribute("href", encodedUri);
-  link.setAttribute("download", `${filename}.csv`);
+  link.setAttribute("download", downloadName);
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
-  toast.success(`Exported ${filename}.csv successfully!`);
+  toast.success(`Exported ${downloadName} successfully!`);
+};
+
+// Published production deploys in the range, oldest first, for the chart markers
+export const getDeploys = async (siteId: string, timeRange: TimeRange): Promise<Deploy[]> => {
+  const rangeLabel = describeTimeRange(timeRange);
+  try {
+    const response = await postToProxy({ siteId, ...rangeBodyFor(timeRange) }, deploysUrl);
+    if (await isSessionRejected(response)) {
+      redirectToLogin();
+      return [];
+    }
+    const jsonData: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = describeProxyError(jsonData as ProxyErrorBody | null, `${response.status} ${response.statusText}`);
+      console.error(`Failed loading deploys (${rangeLabel}):`, message);
+      toast.error(`Failed loading deploy markers: ${message}`);
+      return [];
+    }
+    const parsed = deploysResponseSchema.safeParse(jsonData);
+    if (!parsed.success) {
+      console.error("Unexpected deploys payload:", parsed.error.issues);
+      return [];
+    }
+    return parsed.data.data;
+  } catch (error) {
+    console.error(`Error calling deploys function (${rangeLabel}):`, error);
+    toast.error(`Failed calling deploys function (${rangeLabel}). Check console.`);
+    return [];
+  }
 };
@@ -0,0 +1,26 @@
+import { TriageEntry, TriageInput, TriageReview, triageEntrySchema, triageReviewSchema, TriageState, triageStateSchema } from "@shared/analytics";
+import { sendToFunction } from "@/services/authApi";
+
+export { TRIAGE_STATUSES, UNRESOLVED_TRIAGE_STATUSES } from "@shared/analytics";
+export type { TriageEntry, TriageInput, TriageReview, TriageState, TriageStatus } from "@shared/analytics";
+
+const triageUrl = '/.netlify/functions/triage';
+
+const urlFor = (siteId: string) => `${triageUrl}?${new URLSearchParams({ siteId })}`;
+
+// Statuses and notes of every triaged 404 path, plus the last review
+export const getTriage = async (siteId: string): Promise<TriageState> => {
+  const parsed = triageStateSchema.safeParse(await sendToFunction(urlFor(siteId)));
+  if (!parsed.success) {
+    console.error("Unexpected triage payload:", parsed.error.issues);
+    return { entries: [], review: null };
+  }
+  return parsed.data;
+};
+
+export const setTriage = async (siteId: string, input: TriageInput): Promise<TriageEntry> =>
+  triageEntrySchema.parse(await sendToFunction(urlFor(siteId), { method: 'PUT', body: JSON.stringify(input) }));
+
+// Marks the listed 404 paths as seen; anything outside them shows up as new until the next review
+export const markReviewed = async (siteId: string, paths: string[]): Promise<TriageReview> =>
+  triageReviewSchema.parse(await sendToFunction(urlFor(siteId), { method: 'POST', body: JSON.stringify({ paths }) }));
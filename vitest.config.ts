@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the Netlify functions' helpers. They run in plain Node, so the setup file
+// provides the `Netlify` global the modules read their settings from.
+export default defineConfig({
+  test: {
+    include: ["netlify/**/*.test.ts"],
+    environment: "node",
+    setupFiles: ["netlify/test/setup.ts"],
+  },
+});